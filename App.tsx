@@ -1,12 +1,32 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { GitHubConfig, TranslationRow, GeminiModel, Project, GlobalState, GlobalSettings, ValueType } from './types';
-import { flattenObject, unflattenObject, saveToLocal, loadFromLocal, downloadFile, importProject as importProjectFromText } from './utils';
-import { GitHubService } from './services/githubService';
-import { getTranslationSuggestions } from './services/geminiService';
+import { GitHubConfig, TranslationRow, Project, GlobalState, GlobalSettings, ValueType, LocaleTarget, ExchangeFormat, ImportChange, PullRequestInfo, PushMode, MergeConflict, RemoteFile, DiscoveredGroup, ProviderKind, ValidationIssue, IcuPart, MemoryEntry, MemoryMatch, GlossaryTerm, AiProviderKind, PromptSettings, ReviewSeverity, BatchChunk, BatchChunkStatus } from './types';
+import { stringifyValue, mergeFetchedRows, displayKey, isValidValue, saveToLocal, loadFromLocal, downloadFile, importProject as importProjectFromText, migrateProject, getLocaleValue, setLocaleValue, isModified, aiStateKey, localeFromPath, renameLocale, proposalBranchName, describeChanges, localePathTemplate, pathForLocale, buildFileContent } from './utils';
+import { createRepository, loadRepositoryFiles, repositoryProviders } from './services/repositoryService';
+import { isWorkspaceOpen, openDirectoryWorkspace, openDroppedWorkspace, openZipWorkspace } from './services/localService';
+import { formatForPath } from './formats';
+import { conflictId, findConflicts, rebaseOnRemote } from './merge';
+import { discoverLocaleFiles, discoverWithPresets, discoveryPresets } from './discovery';
+import { validateRow } from './validation';
+import { icuEditorParts, icuParts, joinIcuParts, parseIcu } from './icu';
+import { exchangeFormats, exchangeRows, exportExchange, exportTmx, parseExchange, parseTmx, previewImport } from './exchange';
+import { addToMemory, exactMatches, findMatches, memoryFor } from './translationMemory';
+import { checkGlossary, findTerms, mergeGlossaries, termTarget } from './glossary';
+import { buildReviewPrompt, buildSuggestionPrompt, DEFAULT_PROMPT_TEMPLATE, promptSettings } from './prompt';
+import { aiApiKey, aiProviders, createAiProvider, getReviews, getTranslationSuggestions, tokenBudget } from './services/aiService';
+import { runBatch } from './batch';
+import { answerCollector, ChunkPlan, estimateTokens, planChunks, splitKeyOf } from './chunking';
 import { Virtuoso } from 'react-virtuoso';
 
 const STORAGE_KEY = 'multiverse_persistent_storage_v1';
+// kept apart from the projects, which every edit saves again
+const MEMORY_KEY = 'multiverse_translation_memory_v1';
+
+// Review issues sorted worst first; rows without an issue rank 0
+const SEVERITY_RANK: Record<ReviewSeverity, number> = { minor: 1, major: 2, critical: 3 };
+const SEVERITY_STYLE: Record<ReviewSeverity, string> = { minor: 'bg-sky-100 text-sky-700', major: 'bg-amber-100 text-amber-700', critical: 'bg-rose-600 text-white' };
+
+const CHUNK_STYLE: Record<BatchChunkStatus, string> = { queued: 'bg-slate-200', running: 'bg-indigo-500 animate-pulse', retrying: 'bg-amber-400 animate-pulse', done: 'bg-lime-500', failed: 'bg-rose-500', cancelled: 'bg-slate-400' };
 
 interface AppProps {
   projectLoadQueue: Project[];
@@ -16,7 +36,7 @@ const App: React.FC<AppProps> = (props) => {
   const [projects, setProjects] = useState<Project[]>([]);
   const [projectLoadQueue, setProjectLoadQueue] = useState<Project[]>(props.projectLoadQueue);
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
-  const [settings, setSettings] = useState<GlobalSettings>({ githubToken: '', geminiApiKey: '', suggestionChunkSize: 10 });
+  const [settings, setSettings] = useState<GlobalSettings>({ githubToken: '', geminiApiKey: '', suggestionChunkSize: 50 });
   const [loading, setLoading] = useState(false);
   const [rowAiLoading, setRowAiLoading] = useState<Record<string, boolean>>({});
   const [rowAiTemp, setRowAiTemp] = useState<Record<string, string>>({});
@@ -27,17 +47,32 @@ const App: React.FC<AppProps> = (props) => {
   const [isEditingName, setIsEditingName] = useState(false);
   const [editNameValue, setEditNameValue] = useState('');
   const [showDialogSuggestAll, setShowDialogSuggestAll] = useState(false);
-  const [additionalInstructions, setAdditionalInstructions] = useState('');
   const [replaceExistAISuggestions, setReplaceExistAISuggestions] = useState(false);
   const [showSearchHelp, setShowSearchHelp] = useState(false);
+  const [activeLocaleId, setActiveLocaleId] = useState<string | null>(null);
+  const [unpickedLocales, setUnpickedLocales] = useState<Record<string, boolean>>({});
+  const [showExchange, setShowExchange] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [exchangeFormat, setExchangeFormat] = useState<ExchangeFormat>('xliff12');
+  const [pullRequest, setPullRequest] = useState<PullRequestInfo | null>(null);
+  const [mergeState, setMergeState] = useState<{ remoteFiles: Record<string, RemoteFile>; conflicts: MergeConflict[]; keepLocal: Record<string, boolean>; commitMessage: string } | null>(null);
+  const [newLocale, setNewLocale] = useState<{ locale: string; template: string } | null>(null);
+  // rows whose plural message is edited as raw ICU text instead of one field per plural form
+  const [rawIcuRows, setRawIcuRows] = useState<Record<string, boolean>>({});
+  const [memory, setMemory] = useState<MemoryEntry[]>(() => loadFromLocal(MEMORY_KEY) || []);
+  // the running or last finished Suggest All or review, shown as a progress panel until closed
+  const [batchJob, setBatchJob] = useState<{ label: string; chunks: BatchChunk[]; controller: AbortController; running: boolean } | null>(null);
+  const [repoTree, setRepoTree] = useState<{ repository: string; branches: string[]; paths: string[]; truncated: boolean } | null>(null);
+  const [repoBrowser, setRepoBrowser] = useState<{ field: 'source' | number | null; filter: string; pattern: string } | null>(null);
+  const [importPreview, setImportPreview] = useState<{ locale: string; fileName: string; changes: ImportChange[]; unknownKeys: string[] } | null>(null);
 
   // Load from Browser Storage
   useEffect(() => {
     const saved = loadFromLocal(STORAGE_KEY) as GlobalState;
     if (saved && saved.projects && saved.projects.length > 0) {
-      setProjects(saved.projects);
+      setProjects(saved.projects.map(migrateProject));
       setActiveProjectId(saved.activeProjectId || saved.projects[0].id);
-      setSettings(saved.settings || { githubToken: '', geminiApiKey: '', suggestionChunkSize: 10 });
+      setSettings(saved.settings || { githubToken: '', geminiApiKey: '', suggestionChunkSize: 50 });
     } else {
       const demo = createEmptyProject("Default Project");
       setProjects([demo]);
@@ -45,7 +80,7 @@ const App: React.FC<AppProps> = (props) => {
     }
 
     if (projectLoadQueue.length > 0) {
-      setProjects(prev => [...prev, ...projectLoadQueue.filter(p => !prev.some(x => x.id === p.id))]);
+      setProjects(prev => [...prev, ...projectLoadQueue.filter(p => !prev.some(x => x.id === p.id)).map(migrateProject)]);
       setActiveProjectId(projectLoadQueue[0].id);
       setProjects([]);
     }
@@ -58,24 +93,93 @@ const App: React.FC<AppProps> = (props) => {
     }
   }, [projects, activeProjectId, settings]);
 
+  useEffect(() => {
+    saveToLocal(MEMORY_KEY, memory);
+  }, [memory]);
+
   const activeProject = useMemo(() =>
     projects.find(p => p.id === activeProjectId) || null
     , [projects, activeProjectId]);
 
+  // Locale shown in the grid, and the locales batch actions (fetch, suggest, push) run for
+  const targets = activeProject?.config.targets || [];
+  const activeLocale = targets.some(t => t.locale === activeLocaleId) ? activeLocaleId : (targets[0]?.locale || '');
+  const pickedTargets = targets.filter(t => !unpickedLocales[t.locale]);
+
+  // A project can use its own token, e.g. for repositories owned by another account
+  const tokenFor = (project: Project) => settings.projectTokens?.[project.id] || settings.githubToken;
+  const githubToken = activeProject ? tokenFor(activeProject) : settings.githubToken;
+  const providerOf = (config: GitHubConfig) => repositoryProviders[config.provider || 'github'];
+  const hasRepository = (config: GitHubConfig) => !!config.repo && (!providerOf(config).hosted || !!config.owner);
+
+  // Files and locale groups listed by the repository browser
+  const browsedPaths = useMemo(() => {
+    const filter = repoBrowser?.filter.trim().toLowerCase() || '';
+    return (repoTree?.paths || []).filter(path => path.toLowerCase().includes(filter));
+  }, [repoTree, repoBrowser?.filter]);
+  const discoveredGroups = useMemo(() => {
+    if (!repoTree || !repoBrowser || repoBrowser.field !== null) return [];
+    const sourceLocale = activeProject?.config.sourceLocale || 'en';
+    const pattern = repoBrowser.pattern.trim();
+    try {
+      return pattern ? discoverLocaleFiles(repoTree.paths, pattern, sourceLocale) : discoverWithPresets(repoTree.paths, sourceLocale);
+    } catch {
+      return [];
+    }
+  }, [repoTree, repoBrowser?.field, repoBrowser?.pattern, activeProject?.config.sourceLocale]);
+
+  // Remembered translations between the source and the active locale
+  const memoryEntries = useMemo(() =>
+    memoryFor(memory, activeProject?.config.sourceLocale || '', activeLocale)
+    , [memory, activeProject?.config.sourceLocale, activeLocale]);
+  // Fuzzy matches by source text, computed as rows scroll into view
+  const memoryMatchCache = useMemo(() => new Map<string, MemoryMatch[]>(), [memoryEntries]);
+  const memoryMatchesFor = (source: string) => {
+    if (!memoryMatchCache.has(source)) memoryMatchCache.set(source, findMatches(memoryEntries, source));
+    return memoryMatchCache.get(source)!;
+  };
+
+  const glossary = useMemo(() =>
+    mergeGlossaries(activeProject?.glossary, settings.sharedGlossary)
+    , [activeProject?.glossary, settings.sharedGlossary]);
+  // Rows of the active locale whose translation ignores a glossary term, by key
+  const glossaryIssues = useMemo(() => {
+    const issues: Record<string, ValidationIssue[]> = {};
+    if (glossary.length === 0) return issues;
+    activeProject?.rows.forEach(r => {
+      if ((r.valueType || 'string') !== 'string') return;
+      const found = checkGlossary(r.sourceValue, getLocaleValue(r, activeLocale).targetValue, glossary, activeLocale);
+      if (found.length > 0) issues[r.key] = found;
+    });
+    return issues;
+  }, [activeProject?.rows, activeLocale, glossary]);
+
+  // Placeholder, markup and ICU problems of each row in the active locale, by key
+  const rowIssues = useMemo(() => {
+    const issues: Record<string, ValidationIssue[]> = {};
+    activeProject?.rows.forEach(r => {
+      const found = validateRow(r, activeLocale);
+      if (found.length > 0) issues[r.key] = found;
+    });
+    return issues;
+  }, [activeProject?.rows, activeLocale]);
+
   // Sync rename input with active project
   useEffect(() => {
     if (activeProject) setEditNameValue(activeProject.name);
+    setPullRequest(null);
   }, [activeProject?.id]);
 
   function createEmptyProject(name: string): Project {
     return {
       id: crypto.randomUUID(),
       name,
-      config: { owner: '', repo: '', branch: 'main', sourcePath: '', targetPath: '' },
+      config: { owner: '', repo: '', branch: 'main', sourceLocale: '', sourcePath: '', targets: [] },
       rows: [],
-      selectedModel: GeminiModel['G3-FLASH-PRE'],
+      ai: { provider: 'gemini', model: aiProviders.gemini.models[0] },
       lastUpdated: Date.now(),
       originalTargetData: {},
+      originalTargetRaw: {},
     };
   }
 
@@ -103,6 +207,8 @@ const App: React.FC<AppProps> = (props) => {
     if (!confirm(`Permanently remove project "${activeProject.name}"?`)) return;
 
     const remaining = projects.filter(p => p.id !== activeProject.id);
+    const { [activeProject.id]: _, ...projectTokens } = settings.projectTokens || {};
+    setSettings({ ...settings, projectTokens });
 
     if (remaining.length === 0) {
       const next = createEmptyProject("Default Project");
@@ -149,147 +255,640 @@ const App: React.FC<AppProps> = (props) => {
     input.click();
   };
 
+  const handleExportExchange = () => {
+    const target = targets.find(t => t.locale === activeLocale);
+    if (!activeProject || !target) return;
+    const { extension, mimeType } = exchangeFormats[exchangeFormat];
+    const content = exportExchange({
+      sourceLocale: activeProject.config.sourceLocale,
+      targetLocale: target.locale,
+      rows: exchangeRows(activeProject.rows, target.locale),
+    }, exchangeFormat, target.path);
+    downloadFile(`${activeProject.name}.${target.locale}.${extension}`, content, mimeType);
+  };
+
+  const handleImportExchange = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.xlf,.xliff,.csv,.xlsx';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file || !activeProject) return;
+      try {
+        const imported = parseExchange(new Uint8Array(await file.arrayBuffer()), file.name);
+        // XLIFF names its target language; spreadsheets go to the locale being viewed
+        const locale = targets.some(t => t.locale === imported.targetLocale) ? imported.targetLocale! : activeLocale;
+        setImportPreview({ locale, fileName: file.name, ...previewImport(activeProject.rows, imported, locale) });
+      } catch (err: any) {
+        alert(`Failed to import translations: ${err.message}`);
+      }
+    };
+    input.click();
+  };
+
+  const handleApplyImport = () => {
+    if (!activeProject || !importPreview) return;
+    const changes = new Map(importPreview.changes.map(c => [c.key, c.after]));
+    updateActiveProject({
+      rows: activeProject.rows.map(r => changes.has(r.key) ? setLocaleValue(r, importPreview.locale, { targetValue: changes.get(r.key)! }) : r)
+    });
+    setImportPreview(null);
+    setShowExchange(false);
+  };
+
   const handleRevertProject = () => {
     if (!activeProject) return;
     if (!confirm(`Revert project "${activeProject.name}"? You will lose all changes.`)) return;
 
-    updateActiveProject({ rows: activeProject.rows.map(r => ({ ...r, targetValue: r.originalTargetValue })) });
+    updateActiveProject({
+      rows: activeProject.rows.map(r => Object.keys(r.locales).reduce((row, locale) =>
+        setLocaleValue(row, locale, { targetValue: getLocaleValue(row, locale).originalTargetValue }), r))
+    });
   };
 
   const updateActiveProject = (updates: Partial<Project>) => {
     setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, ...updates, lastUpdated: Date.now() } : p));
   };
 
+  const updateTargets = (targets: LocaleTarget[]) => {
+    if (!activeProject) return;
+    updateActiveProject({ config: { ...activeProject.config, targets } });
+  };
+
+  const handleAddTarget = () => {
+    if (!activeProject) return;
+    updateTargets([...activeProject.config.targets, { locale: '', path: '' }]);
+  };
+
+  // Starts the add-locale form with a path template guessed from an existing target, or from the source
+  const handleStartNewLocale = () => {
+    if (!activeProject) return;
+    const reference = activeProject.config.targets.find(t => t.locale && t.path);
+    const template = reference
+      ? localePathTemplate(reference.path, reference.locale) || reference.path
+      : localePathTemplate(activeProject.config.sourcePath, activeProject.config.sourceLocale);
+    setNewLocale({ locale: '', template });
+  };
+
+  // Adds a locale whose file may not exist yet: every row starts untranslated and the first push creates the file
+  const handleAddLocale = () => {
+    if (!activeProject || !newLocale) return;
+    const locale = newLocale.locale.trim();
+    if (!locale || !newLocale.template.trim()) return;
+    if (locale === activeProject.config.sourceLocale || activeProject.config.targets.some(t => t.locale === locale)) {
+      alert(`Locale "${locale}" is already part of this project.`);
+      return;
+    }
+    const path = pathForLocale(newLocale.template.trim(), locale);
+    // A catalog shared with another locale already exists and is written into as it is
+    const sibling = activeProject.config.targets.find(t => t.path === path && activeProject.originalTargetRaw[t.locale] !== undefined);
+    updateActiveProject({
+      config: { ...activeProject.config, targets: [...activeProject.config.targets, { locale, path }] },
+      rows: activeProject.rows.map(r => setLocaleValue(r, locale, { targetValue: '', originalTargetValue: '', aiSuggestion: '' })),
+      originalTargetData: { ...activeProject.originalTargetData, [locale]: {} },
+      ...(sibling ? {
+        originalTargetRaw: { ...activeProject.originalTargetRaw, [locale]: activeProject.originalTargetRaw[sibling.locale] },
+        targetShas: { ...activeProject.targetShas, ...(activeProject.targetShas?.[sibling.locale] ? { [locale]: activeProject.targetShas[sibling.locale] } : {}) },
+      } : {}),
+    });
+    setActiveLocaleId(locale);
+    setNewLocale(null);
+  };
+
+  const handleChangeTargetLocale = (index: number, locale: string, path?: string) => {
+    if (!activeProject) return;
+    const previous = activeProject.config.targets[index].locale;
+    const newTargets = activeProject.config.targets.map((t, i) => i === index ? { locale, path: path ?? t.path } : t);
+    if (activeProject.config.targets.some(t => t.locale === locale)) {
+      updateTargets(newTargets);
+      return;
+    }
+    const { [previous]: data, ...originalTargetData } = activeProject.originalTargetData;
+    const { [previous]: raw, ...originalTargetRaw } = activeProject.originalTargetRaw;
+    const { [previous]: sha, ...targetShas } = activeProject.targetShas || {};
+    updateActiveProject({
+      config: { ...activeProject.config, targets: newTargets },
+      rows: renameLocale(activeProject.rows, previous, locale),
+      originalTargetData: data ? { ...originalTargetData, [locale]: data } : originalTargetData,
+      originalTargetRaw: raw !== undefined ? { ...originalTargetRaw, [locale]: raw } : originalTargetRaw,
+      targetShas: sha ? { ...targetShas, [locale]: sha } : targetShas,
+    });
+  };
+
+  const handleChangeTargetPath = (index: number, path: string) => {
+    if (!activeProject) return;
+    const target = activeProject.config.targets[index];
+    // keep deriving the locale from the file name until it is edited by hand
+    const derived = !target.locale || target.locale === localeFromPath(target.path);
+    handleChangeTargetLocale(index, derived ? localeFromPath(path) : target.locale, path);
+  };
+
+  const handleChangeSourcePath = (path: string) => {
+    if (!activeProject) return;
+    updateActiveProject({
+      config: {
+        ...activeProject.config,
+        sourcePath: path,
+        // keep deriving the locale from the file name until it is edited by hand
+        sourceLocale: !activeProject.config.sourceLocale || activeProject.config.sourceLocale === localeFromPath(activeProject.config.sourcePath)
+          ? localeFromPath(path)
+          : activeProject.config.sourceLocale,
+      }
+    });
+  };
+
+  const repositoryOf = (config: GitHubConfig) => `${config.provider || 'github'}:${config.owner}/${config.repo}@${config.branch}`;
+
+  const loadRepoTree = async (config: GitHubConfig) => {
+    setLoading(true);
+    try {
+      const service = createRepository(config, githubToken);
+      const [branches, tree] = await Promise.all([service.listBranches(), service.listTree(config.branch)]);
+      setRepoTree({ repository: repositoryOf(config), branches, ...tree });
+    } catch (err: any) {
+      alert(`Could not read ${config.owner}/${config.repo} (${config.branch}): ${err.message}`);
+      setRepoBrowser(null);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenRepoBrowser = (field: 'source' | number | null) => {
+    if (!activeProject || !hasRepository(activeProject.config)) {
+      alert("⚠️ Configuration Incomplete\nPlease provide the Repository Owner and Name, or open a local folder, first.");
+      return;
+    }
+    setRepoBrowser({ field, filter: '', pattern: '' });
+    if (repoTree?.repository !== repositoryOf(activeProject.config)) loadRepoTree(activeProject.config);
+  };
+
+  // Opens a local folder or zip as the project's repository, then offers the locale files found in it
+  const handleOpenWorkspace = async (open: () => Promise<string>) => {
+    if (!activeProject) return;
+    try {
+      const name = await open();
+      const config: GitHubConfig = { ...activeProject.config, provider: 'local', owner: '', repo: name, branch: 'local', pushMode: 'commit' };
+      updateActiveProject({ config });
+      setRepoBrowser({ field: null, filter: '', pattern: '' });
+      loadRepoTree(config);
+    } catch (err: any) {
+      if (err.name !== 'AbortError') alert(`Could not open workspace: ${err.message}`);
+    }
+  };
+
+  const handleOpenWorkspaceZip = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.zip';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) handleOpenWorkspace(async () => openZipWorkspace(file.name, new Uint8Array(await file.arrayBuffer())));
+    };
+    input.click();
+  };
+
+  const handleChangeBrowserBranch = (branch: string) => {
+    if (!activeProject) return;
+    const config = { ...activeProject.config, branch };
+    updateActiveProject({ config });
+    loadRepoTree(config);
+  };
+
+  const handlePickPath = (path: string) => {
+    if (!repoBrowser) return;
+    if (repoBrowser.field === 'source') handleChangeSourcePath(path);
+    else if (repoBrowser.field !== null) handleChangeTargetPath(repoBrowser.field, path);
+    setRepoBrowser(null);
+  };
+
+  const handleApplyDiscovery = (group: DiscoveredGroup) => {
+    if (!activeProject) return;
+    const sourcePath = group.sourcePath || activeProject.config.sourcePath;
+    // catalogs that hold every locale keep their current targets, pointed at the catalog
+    const newTargets = group.targets.length > 0 ? group.targets : activeProject.config.targets.map(t => ({ ...t, path: sourcePath }));
+    updateActiveProject({
+      config: {
+        ...activeProject.config,
+        sourcePath,
+        sourceLocale: activeProject.config.sourceLocale || localeFromPath(sourcePath),
+        targets: newTargets,
+      }
+    });
+    setRepoBrowser(null);
+  };
+
+  // Paths are checked against the last browsed tree of the same repository and branch
+  const isMissingPath = (path: string) => !!activeProject && !!path && repoTree?.repository === repositoryOf(activeProject.config) && !repoTree.truncated && !repoTree.paths.includes(path);
+
+  const handleRemoveTarget = (index: number) => {
+    if (!activeProject) return;
+    const target = activeProject.config.targets[index];
+    if (target.locale && !confirm(`Remove target locale "${target.locale}"? Its translations will be dropped from this project.`)) return;
+    const { [target.locale]: _, ...originalTargetData } = activeProject.originalTargetData;
+    const { [target.locale]: __, ...originalTargetRaw } = activeProject.originalTargetRaw;
+    const { [target.locale]: ___, ...targetShas } = activeProject.targetShas || {};
+    updateActiveProject({
+      config: { ...activeProject.config, targets: activeProject.config.targets.filter((_, i) => i !== index) },
+      rows: activeProject.rows.map(r => {
+        const { [target.locale]: _, ...locales } = r.locales;
+        return { ...r, locales };
+      }),
+      originalTargetData,
+      originalTargetRaw,
+      targetShas,
+    });
+  };
+
   const handleFetchFiles = async () => {
-    if (!activeProject?.config.owner || !activeProject?.config.repo || !activeProject?.config.sourcePath) {
-      alert("⚠️ Configuration Incomplete\nPlease provide the Repository Owner, Name, and Source/Target paths in Project Settings.");
+    if (!activeProject || !hasRepository(activeProject.config) || !activeProject.config.sourcePath || pickedTargets.length === 0) {
+      alert("⚠️ Configuration Incomplete\nPlease provide the Repository Owner, Name, Source path and at least one Target Locale in Project Settings.");
       setShowConfig(true);
       return;
     }
 
     setLoading(true);
     try {
-      const service = new GitHubService(activeProject.config, null);
-      const { source, target } = await service.loadFiles();
-
-      const flatSource = flattenObject(source);
-      const flatTarget = flattenObject(target);
-
-      const newRows: TranslationRow[] = Object.keys(flatSource).filter(key => {
-        let row = activeProject?.rows.filter(r => r.key === key)[0];
-        return typeof flatSource[key] === 'string';
-      }).map(key => {
-        let row = activeProject?.rows.filter(r => r.key === key)[0];
-        const targetValue = (activeProject ? row?.targetValue === row?.originalTargetValue : true) ? (flatTarget[key] ? flatTarget[key].toString() : flatSource[key].toString()) : row?.targetValue || ''
-        const sourceValue = flatSource[key].toString();
-        return ({
-          key: key,
-          sourceValue: sourceValue,
-          targetValue: targetValue,
-          originalTargetValue: flatTarget[key] ? flatTarget[key].toString() : flatSource[key].toString(),
-          aiSuggestion: row ? (row.aiSuggestion || '') : '',
-          pastSourceValue: row ? (row.pastSourceValue || '') : '',
-        });
-      });
+      const service = createRepository(activeProject.config, githubToken);
+      // Pull requests are pushed to the translation branch, so once it exists its files are the ones to edit and to
+      // check for remote changes against
+      const proposal = activeProject.config.pushMode === 'pull-request' ? proposalBranchName(activeProject.config) : undefined;
+      const targetRef = proposal && (await service.listBranches()).includes(proposal) ? proposal : undefined;
+      const loaded = await loadRepositoryFiles(service, activeProject.config, pickedTargets, targetRef);
 
-      updateActiveProject({ rows: newRows, originalTargetData: target });
+      updateActiveProject({
+        rows: mergeFetchedRows(activeProject.rows, loaded, pickedTargets, activeProject.config.sourcePath),
+        originalTargetData: { ...activeProject.originalTargetData, ...loaded.targets },
+        originalTargetRaw: { ...activeProject.originalTargetRaw, ...loaded.rawTargets },
+        originalSourceRaw: loaded.sourceRaw,
+        targetShas: { ...activeProject.targetShas, ...loaded.shas },
+      });
       setShowConfig(false);
     } catch (err: any) {
-      alert(`GitHub Sync Failed: ${err.message}`);
+      alert(`${providerOf(activeProject.config).label} Sync Failed: ${err.message}`);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSuggestAll = async () => {
-    if (!activeProject || activeProject.rows.length === 0) return;
+  const updatePromptSettings = (patch: Partial<PromptSettings>) => {
+    if (!activeProject) return;
+    updateActiveProject({ prompt: { ...promptSettings(activeProject), ...patch } });
+  };
 
-    // Explicit API Key validation
-    if (!settings.geminiApiKey) {
-      alert("⚠️ Gemini API Key Missing\nYou need to provide a valid Gemini API Key in Settings to use AI suggestions.");
+  // The project's AI provider, or null after telling the user its key is missing
+  const aiProviderFor = (project: Project) => {
+    const apiKey = aiApiKey(settings, project.ai.provider);
+    if (!apiKey && aiProviders[project.ai.provider].keyRequired) {
+      alert(`⚠️ ${aiProviders[project.ai.provider].label} API Key Missing\nYou need to provide a valid ${aiProviders[project.ai.provider].label} API Key in Settings to use AI suggestions.`);
       setShowSettings(true);
-      return;
+      return null;
     }
+    return createAiProvider(project.ai, apiKey);
+  };
 
-    try {
-      const chunkSize = settings.suggestionChunkSize || 10;
-      const updatedRows = [...filteredRows].filter(r => (replaceExistAISuggestions || (r.aiSuggestion === undefined || r.aiSuggestion === '')) && !rowAiLoading[r.key]);
-      const newRows = [...activeProject.rows]
-
-      let newRowLoading = { ...rowAiLoading };
-      updatedRows.forEach(r => { newRowLoading[r.key] = true; });
-      setRowAiLoading({ ...rowAiLoading, ...newRowLoading });
-
-      for (let i = 0; i < updatedRows.length; i += chunkSize) {
-        const chunk = updatedRows.slice(i, i + chunkSize);
-        const sourceTexts = chunk.map(r => {
-          return ({ key: r.key, value: r.sourceValue });
-        });
-
-        const suggestions = await getTranslationSuggestions(
-          activeProject.selectedModel, settings.geminiApiKey,
-          activeProject.config.sourcePath.split('/').pop()?.replace('.json', '') || 'Source',
-          activeProject.config.targetPath.split('/').pop()?.replace('.json', '') || 'Target',
-          sourceTexts,
-          additionalInstructions
+  const handleSuggestAll = async () => {
+    if (!activeProject || activeProject.rows.length === 0 || batchJob?.running) return;
+    const provider = aiProviderFor(activeProject);
+    if (!provider) return;
+
+    const project = activeProject;
+    const budget = tokenBudget(project.ai);
+    const plans = new Map<string, { plan: ChunkPlan; collect: (answers: Record<string, string>) => Record<string, string> }>();
+    const chunks: BatchChunk[] = [];
+    pickedTargets.forEach(target => {
+      const rows = filteredRows.filter(r => (r.valueType || 'string') === 'string' && (replaceExistAISuggestions || !getLocaleValue(r, target.locale).aiSuggestion) && !rowAiLoading[aiStateKey(target.locale, r.key)]);
+      const overhead = estimateTokens(buildSuggestionPrompt(project, target.locale, [], glossary));
+      const plan = planChunks(rows, target.locale, budget, overhead, settings.suggestionChunkSize || 50);
+      plans.set(target.locale, { plan, collect: answerCollector(plan) });
+      plan.chunks.forEach(keys => chunks.push({ locale: target.locale, keys, status: 'queued', attempts: 0 }));
+    });
+    if (chunks.length === 0) return;
+
+    const loadingFor = (chunk: BatchChunk, isLoading: boolean) => Object.fromEntries(chunk.keys.map(key => [aiStateKey(chunk.locale, splitKeyOf(key)), isLoading]));
+    // streamed text is shown in the grid until its chunk is answered; pieces of split strings are not shown
+    const showStreamed = (locale: string, texts: Record<string, string>) => setRowAiTemp(prev => ({
+      ...prev,
+      ...Object.fromEntries(Object.entries(texts).filter(([key]) => splitKeyOf(key) === key).map(([key, text]) => [aiStateKey(locale, key), text])),
+    }));
+    const clearStreamed = (chunk: BatchChunk) => showStreamed(chunk.locale, Object.fromEntries(chunk.keys.map(key => [key, ''])));
+    const controller = new AbortController();
+    setBatchJob({ label: 'AI Suggest', chunks, controller, running: true });
+    setRowAiLoading(prev => ({ ...prev, ...Object.assign({}, ...chunks.map(chunk => loadingFor(chunk, true))) }));
+
+    const finished = await runBatch(
+      chunks,
+      (chunk, signal) => {
+        // text streamed by an earlier attempt is dropped
+        clearStreamed(chunk);
+        return getTranslationSuggestions(
+          provider,
+          buildSuggestionPrompt(project, chunk.locale, chunk.keys.map(key => plans.get(chunk.locale)!.plan.rows.get(key)!), glossary),
+          chunk.keys,
+          signal,
+          texts => showStreamed(chunk.locale, texts)
         );
-        chunk.forEach(r => { newRowLoading[r.key] = false; });
+      },
+      // each chunk lands as soon as it is answered, on the rows as they are by then
+      (chunk, answers) => {
+        // pieces of a split string wait for the rest of it
+        const suggestions = plans.get(chunk.locale)!.collect(answers);
+        setProjects(prev => prev.map(p => p.id !== project.id ? p : {
+          ...p,
+          rows: p.rows.map(r => suggestions[r.key] !== undefined ? setLocaleValue(r, chunk.locale, { aiSuggestion: suggestions[r.key] }) : r),
+          lastUpdated: Date.now(),
+        }));
+        setRowAiLoading(prev => ({ ...prev, ...loadingFor({ ...chunk, keys: Object.keys(suggestions) }, false) }));
+        clearStreamed(chunk);
+      },
+      {
+        concurrency: settings.suggestionConcurrency || 2,
+        retries: settings.suggestionRetries ?? 3,
+        signal: controller.signal,
+        onProgress: progress => setBatchJob(job => job?.controller === controller ? { ...job, chunks: progress } : job),
+      }
+    );
+    setRowAiLoading(prev => ({ ...prev, ...Object.assign({}, ...finished.map(chunk => loadingFor(chunk, false))) }));
+    finished.forEach(clearStreamed);
+    setBatchJob(job => job?.controller === controller ? { ...job, chunks: finished, running: false } : job);
+  };
 
-        Object.keys(suggestions).forEach(key => {
-          const rowIndex = newRows.findIndex(r => r.key === key);
-          if (rowIndex !== -1) newRows[rowIndex].aiSuggestion = suggestions[key];
-        });
-        Object.keys(suggestions).forEach(key => {
-          setRowAiTemp({ ...rowAiTemp, [key]: suggestions[key] });
-        });
+  // Asks the model to judge the existing translations of the filtered rows in every picked locale
+  const handleReviewAll = async () => {
+    if (!activeProject || batchJob?.running) return;
+    const provider = aiProviderFor(activeProject);
+    if (!provider) return;
+
+    const project = activeProject;
+    const budget = tokenBudget(project.ai);
+    // the translation each review is about, as it was sent
+    const reviewedTargets = new Map<string, string>();
+    const chunks: BatchChunk[] = [];
+    pickedTargets.forEach(target => {
+      const rows = filteredRows.filter(r => (r.valueType || 'string') === 'string' && getLocaleValue(r, target.locale).targetValue !== '' && !rowAiLoading[aiStateKey(target.locale, r.key)]);
+      rows.forEach(r => reviewedTargets.set(aiStateKey(target.locale, r.key), getLocaleValue(r, target.locale).targetValue));
+      // planned on source and translation together, since a review reads both and may answer with a correction
+      const overhead = estimateTokens(buildReviewPrompt(project, target.locale, [], glossary));
+      const plan = planChunks(rows.map(r => ({ ...r, sourceValue: `${r.sourceValue}\n${getLocaleValue(r, target.locale).targetValue}` })), target.locale, budget, overhead, settings.suggestionChunkSize || 50);
+      // a string too long for one request cannot be reviewed in pieces, so it goes alone
+      plan.chunks.map(keys => keys.filter(key => splitKeyOf(key) === key)).filter(keys => keys.length > 0)
+        .concat([...plan.splits.keys()].map(key => [key]))
+        .forEach(keys => chunks.push({ locale: target.locale, keys, status: 'queued', attempts: 0 }));
+    });
+    if (chunks.length === 0) return;
+
+    const rowsByKey = new Map(project.rows.map(r => [r.key, r]));
+    const loadingFor = (chunk: BatchChunk, isLoading: boolean) => Object.fromEntries(chunk.keys.map(key => [aiStateKey(chunk.locale, key), isLoading]));
+    const controller = new AbortController();
+    setBatchJob({ label: 'AI Review', chunks, controller, running: true });
+    setRowAiLoading(prev => ({ ...prev, ...Object.assign({}, ...chunks.map(chunk => loadingFor(chunk, true))) }));
+
+    const finished = await runBatch(
+      chunks,
+      (chunk, signal) => getReviews(provider, buildReviewPrompt(project, chunk.locale, chunk.keys.map(key => rowsByKey.get(key)!), glossary), chunk.keys, signal),
+      // each chunk lands as soon as it is answered, on the rows as they are by then
+      (chunk, reviews) => {
+        setProjects(prev => prev.map(p => p.id !== project.id ? p : {
+          ...p,
+          rows: p.rows.map(r => reviews[r.key] ? setLocaleValue(r, chunk.locale, { review: { ...reviews[r.key], target: reviewedTargets.get(aiStateKey(chunk.locale, r.key))! } }) : r),
+          lastUpdated: Date.now(),
+        }));
+        setRowAiLoading(prev => ({ ...prev, ...loadingFor(chunk, false) }));
+      },
+      {
+        concurrency: settings.suggestionConcurrency || 2,
+        retries: settings.suggestionRetries ?? 3,
+        signal: controller.signal,
+        onProgress: progress => setBatchJob(job => job?.controller === controller ? { ...job, chunks: progress } : job),
+      }
+    );
+    setRowAiLoading(prev => ({ ...prev, ...Object.assign({}, ...finished.map(chunk => loadingFor(chunk, false))) }));
+    setBatchJob(job => job?.controller === controller ? { ...job, chunks: finished, running: false } : job);
+  };
+
+  const pushBranch = (config: GitHubConfig) => config.pushMode === 'pull-request' ? proposalBranchName(config) : config.branch;
+
+  // Writes the changed picked locales of `project`, which may be the active project rebased onto newer remote files
+  const pushChanges = async (project: Project, commitMessage: string) => {
+    const changedTargets = pickedTargets.filter(t => project.rows.some(r => isModified(r, t.locale)));
+    const pushedLocales: string[] = [];
+    const pushedFiles: Record<string, RemoteFile> = {};
+    const proposing = project.config.pushMode === 'pull-request';
+    const branch = pushBranch(project.config);
+    const changedKeys = Object.fromEntries(changedTargets.map(t => [t.locale, project.rows.filter(r => isModified(r, t.locale)).map(r => r.key)]));
+    try {
+      const service = createRepository(project.config, tokenFor(project));
+      const files = [...new Set(changedTargets.map(t => t.path))].map(path => ({ path, content: buildFileContent(project, changedTargets.filter(t => t.path === path)) }));
+      if (files.length === 0) {
+        alert("Nothing left to push: the remote already has every change.");
+        return;
+      }
+      // Several files go into a single commit so a failure cannot leave the repository half updated
+      if (files.length > 1) {
+        const { shas } = await service.commitFiles(files, commitMessage, branch);
+        files.forEach(file => { pushedFiles[file.path] = { text: file.content, sha: shas[file.path] }; });
+      } else {
+        const result = await service.pushFile(files[0].content, files[0].path, commitMessage, branch);
+        pushedFiles[files[0].path] = { text: files[0].content, sha: result.sha };
+      }
+      pushedLocales.push(...changedTargets.map(t => t.locale));
+
+      if (proposing) {
+        const pullRequest = await service.openPullRequest(branch, `Update ${pushedLocales.join(', ')} translations`, describeChanges(commitMessage, changedKeys));
+        setPullRequest(pullRequest);
+      } else {
+        alert(`Success! Changes ${providerOf(project.config).hosted ? 'pushed' : 'saved'} to ${providerOf(project.config).label}.\nMessage: ${commitMessage}\nLocales: ${pushedLocales.join(', ')}\nRepo/Branch: ${service.branchUrl(branch)}`);
       }
-      setRowAiLoading({ ...rowAiLoading, ...newRowLoading });
-      updateActiveProject({ rows: newRows });
-      let updatedAiTemp = { ...rowAiTemp };
-      updatedRows.forEach(r => { updatedAiTemp[r.key] = undefined; });
-      setRowAiTemp(updatedAiTemp);
     } catch (err: any) {
-      alert(`AI Engine Error: ${err.message}. Try re-authenticating your Gemini Key in Settings.`);
+      alert(`${providerOf(project.config).label} Push Failed: ${err.message}${pushedLocales.length > 0 ? `\nAlready pushed: ${pushedLocales.join(', ')}` : ''}`);
     } finally {
+      const pushedData: Record<string, Record<string, ValueType>> = {};
+      const pushedRaw: Record<string, string> = {};
+      const pushedShas: Record<string, string> = {};
+      // Every locale stored in a pushed file sees the new text, not only the ones that changed
+      targets.filter(t => t.path in pushedFiles).forEach(t => {
+        pushedData[t.locale] = formatForPath(t.path).parse(pushedFiles[t.path].text, { locale: t.locale });
+        pushedRaw[t.locale] = pushedFiles[t.path].text;
+        pushedShas[t.locale] = pushedFiles[t.path].sha;
+      });
+      const sourcePath = project.config.sourcePath;
+      // A rebased project is kept even when nothing could be pushed, so the merge is not lost
+      pushedLocales.forEach(locale => rememberTranslations(project, locale, project.rows.filter(r => isModified(r, locale))));
+      if (pushedLocales.length > 0 || project !== activeProject) {
+        updateActiveProject({
+          rows: project.rows.map(r => pushedLocales.reduce((row, locale) =>
+            setLocaleValue(row, locale, {
+              originalTargetValue: getLocaleValue(row, locale).targetValue,
+              ...(getLocaleValue(row, locale).fuzzy ? { fuzzy: row.sourceValue !== row.pastSourceValue } : {}),
+            }), r)),
+          originalTargetData: { ...project.originalTargetData, ...pushedData },
+          originalTargetRaw: { ...project.originalTargetRaw, ...pushedRaw },
+          targetShas: { ...project.targetShas, ...pushedShas },
+          ...(sourcePath in pushedFiles ? { originalSourceRaw: pushedFiles[sourcePath].text } : {}),
+        });
+      }
     }
   };
 
   const handlePushToGitHub = async () => {
-    if (!settings.githubToken) {
-      alert("⚠️ GitHub Token Missing\nYou need a Personal Access Token to push changes. Set it in Settings.");
+    if (!githubToken && activeProject && providerOf(activeProject.config).hosted) {
+      alert("⚠️ Access Token Missing\nYou need a Personal Access Token to push changes. Set it in Settings or in the Project Settings.");
       setShowSettings(true);
       return;
     }
-    const commitMessage = prompt("Commit message:", `Update ${activeProject?.config.targetPath} translations`);
-    if (!commitMessage || !activeProject) return;
+    const changedTargets = pickedTargets.filter(t => activeProject?.rows.some(r => isModified(r, t.locale)));
+    if (!activeProject || changedTargets.length === 0) return;
+    const invalidRows = activeProject.rows.filter(r => changedTargets.some(t => isModified(r, t.locale) && !isValidValue(r, t.locale)));
+    if (invalidRows.length > 0) {
+      alert(`⚠️ Invalid Values\n${invalidRows.length} entries do not match the type of their source value:\n${invalidRows.slice(0, 10).map(r => `${r.key} (${r.valueType})`).join('\n')}`);
+      return;
+    }
+    const errors = changedTargets.flatMap(t => activeProject.rows
+      .filter(r => isModified(r, t.locale))
+      .flatMap(r => validateRow(r, t.locale).filter(issue => issue.severity === 'error').map(issue => `[${t.locale}] ${displayKey(r.key)}: ${issue.message}`)));
+    if (errors.length > 0) {
+      const summary = `${errors.length} problems with placeholders, markup or ICU syntax:\n${errors.slice(0, 10).join('\n')}${errors.length > 10 ? '\n...' : ''}`;
+      if (settings.blockOnValidationErrors) {
+        alert(`⚠️ Validation Errors\n${summary}\n\nFix them before pushing (search #error).`);
+        return;
+      }
+      if (!confirm(`⚠️ Validation Errors\n${summary}\n\nPush anyway?`)) return;
+    }
+    const commitMessage = prompt("Commit message:", `Update ${[...new Set(changedTargets.map(t => t.path))].join(', ')} translations`);
+    if (!commitMessage) return;
 
     setLoading(true);
     try {
-      const flatData: Record<string, string> = {};
-      activeProject.rows.forEach(r => { flatData[r.key] = r.targetValue; });
-      const content = JSON.stringify(unflattenObject(flatData), null, 4);
-
-      const service = new GitHubService(activeProject.config, settings.githubToken);
-      await service.pushFile(content, activeProject.config.targetPath, commitMessage);
-
-      updateActiveProject({
-        rows: activeProject.rows.map(r => ({ ...r, originalTargetValue: r.targetValue }))
-      });
-      alert(`Success! Changes pushed to GitHub.\nMessage: ${commitMessage}\nRepo/Branch: https://github.com/${activeProject.config.owner}/${activeProject.config.repo}/${activeProject.config.branch}`);
+      const service = createRepository(activeProject.config, githubToken);
+      const branch = pushBranch(activeProject.config);
+      if (activeProject.config.pushMode === 'pull-request') await service.ensureBranch(branch);
+
+      // Files changed by someone else since we fetched them are merged key by key before anything is written
+      const remoteFiles: Record<string, RemoteFile> = {};
+      for (const path of new Set(changedTargets.map(t => t.path))) {
+        const knownShas = targets.filter(t => t.path === path).map(t => activeProject.targetShas?.[t.locale]).filter(sha => sha !== undefined);
+        if (knownShas.length === 0) continue;
+        const remote = await service.getFile(path, branch);
+        if (knownShas.some(sha => sha !== remote.sha)) remoteFiles[path] = remote;
+      }
+      const conflicts = findConflicts(activeProject, remoteFiles);
+      if (conflicts.length > 0) {
+        setMergeState({ remoteFiles, conflicts, keepLocal: {}, commitMessage });
+        return;
+      }
+      await pushChanges(Object.keys(remoteFiles).length > 0 ? rebaseOnRemote(activeProject, remoteFiles) : activeProject, commitMessage);
     } catch (err: any) {
-      alert(`GitHub Push Failed: ${err.message}`);
+      alert(`${providerOf(activeProject.config).label} Push Failed: ${err.message}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResolveMerge = async () => {
+    if (!activeProject || !mergeState) return;
+    setMergeState(null);
+    setLoading(true);
+    try {
+      await pushChanges(rebaseOnRemote(activeProject, mergeState.remoteFiles, mergeState.keepLocal), mergeState.commitMessage);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleCopyRawJson = () => {
+  // Project terms live in the project, shared ones in the settings
+  const setGlossaryTerms = (shared: boolean, terms: GlossaryTerm[]) => {
+    if (shared) setSettings({ ...settings, sharedGlossary: terms });
+    else updateActiveProject({ glossary: terms });
+  };
+
+  const handleEditGlossaryTerm = (term: GlossaryTerm, shared: boolean, patch: Partial<GlossaryTerm> & { shared?: boolean }) => {
+    const { shared: moveTo, ...changes } = patch;
+    const list = (shared ? settings.sharedGlossary : activeProject?.glossary) || [];
+    if (moveTo === undefined || moveTo === shared) {
+      setGlossaryTerms(shared, list.map(t => t.id === term.id ? { ...t, ...changes } : t));
+      return;
+    }
+    // moving a term between the project and the shared glossary touches both lists at once
+    const rest = list.filter(t => t.id !== term.id);
+    const other = [...((moveTo ? settings.sharedGlossary : activeProject?.glossary) || []), { ...term, ...changes }];
+    if (moveTo) {
+      setSettings({ ...settings, sharedGlossary: other });
+      updateActiveProject({ glossary: rest });
+    } else {
+      setSettings({ ...settings, sharedGlossary: rest });
+      updateActiveProject({ glossary: other });
+    }
+  };
+
+  // Records accepted or pushed translations of string rows in the translation memory
+  const rememberTranslations = (project: Project, locale: string, rows: TranslationRow[], target = (r: TranslationRow) => getLocaleValue(r, locale).targetValue) => {
+    const updated = Date.now();
+    setMemory(prev => addToMemory(prev, rows.filter(r => (r.valueType || 'string') === 'string').map(r => ({
+      source: r.sourceValue,
+      target: target(r),
+      sourceLocale: project.config.sourceLocale,
+      targetLocale: locale,
+      origin: project.name,
+      updated,
+    }))));
+  };
+
+  // Fills untranslated rows of the picked locales with translations remembered for exactly the same source
+  const handlePrefillFromMemory = () => {
+    if (!activeProject) return;
+    let filled = 0;
+    let rows = activeProject.rows;
+    pickedTargets.forEach(t => {
+      const exact = exactMatches(memoryFor(memory, activeProject.config.sourceLocale, t.locale));
+      rows = rows.map(r => {
+        const current = getLocaleValue(r, t.locale).targetValue;
+        const remembered = exact.get(r.sourceValue);
+        if ((r.valueType || 'string') !== 'string' || remembered === undefined || (current !== '' && current !== r.sourceValue) || remembered === current) return r;
+        filled++;
+        return setLocaleValue(r, t.locale, { targetValue: remembered });
+      });
+    });
+    if (filled === 0) {
+      alert("No untranslated entry has a 100% match in the translation memory.");
+      return;
+    }
+    updateActiveProject({ rows });
+    alert(`Filled ${filled} entries from the translation memory. Review them before pushing.`);
+  };
+
+  const handleExportMemory = () => {
+    downloadFile('translation-memory.tmx', exportTmx(memory), 'application/x-tmx+xml');
+  };
+
+  const handleImportMemory = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.tmx,.xml';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const entries = parseTmx(await file.text());
+        setMemory(prev => addToMemory(prev, entries));
+        alert(`Imported ${entries.length} translation pairs from ${file.name}.`);
+      } catch (err: any) {
+        alert(`Failed to import translation memory: ${err.message}`);
+      }
+    };
+    input.click();
+  };
+
+  // Writes one field of the plural editor back into the row as a complete ICU message
+  const handleEditIcuPart = (row: TranslationRow, parts: IcuPart[], index: number, part: IcuPart) => {
     if (!activeProject) return;
-    const flatData: Record<string, string> = {};
-    activeProject.rows.forEach(r => { flatData[r.key] = r.targetValue; });
-    const jsonString = JSON.stringify(unflattenObject(flatData), null, 4);
-    navigator.clipboard.writeText(jsonString);
-    alert("Target JSON copied to clipboard!");
+    const targetValue = joinIcuParts(parts.map((p, i) => i === index ? part : p));
+    updateActiveProject({ rows: activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, { targetValue }) : r) });
+  };
+
+  const handleCopyRawFile = () => {
+    const target = targets.find(t => t.locale === activeLocale);
+    if (!activeProject || !target) return;
+    navigator.clipboard.writeText(buildFileContent(activeProject, targets.filter(t => t.path === target.path)));
+    alert(`Target file (${target.path}) copied to clipboard!`);
   };
 
   const handleCopyLink = () => {
@@ -304,39 +903,54 @@ const App: React.FC<AppProps> = (props) => {
     alert("Project URL copied to clipboard!");
   };
 
-  const filteredRows = activeProject?.rows?.filter?.(r =>
-    searchTerms.toLowerCase().split("||").some((searchTerm) => {
+  const filteredRows = activeProject?.rows?.filter?.(r => {
+    const t = getLocaleValue(r, activeLocale);
+    return searchTerms.toLowerCase().split("||").some((searchTerm) => {
       const queryWithoutTag = searchTerm.toLowerCase().substring(0, searchTerm.includes("#") ? searchTerm.indexOf("#") : searchTerm.length).trim();
       return ((!searchTerm.includes("#reg") ? (
         r.key.toLowerCase().includes(queryWithoutTag) ||
         (!searchTerm.includes("#key")) && (
           r.sourceValue.toLowerCase().includes(queryWithoutTag) ||
-          r.targetValue.toLowerCase().includes(queryWithoutTag)))
+          t.targetValue.toLowerCase().includes(queryWithoutTag)))
         :
         (searchTerm.includes("#reg") && (
           new RegExp(queryWithoutTag).test(r.key.toLowerCase()) ||
           (!searchTerm.includes("#key")) && (
             new RegExp(queryWithoutTag).test(r.sourceValue.toLowerCase()) ||
-            new RegExp(queryWithoutTag).test(r.targetValue.toLowerCase())))
+            new RegExp(queryWithoutTag).test(t.targetValue.toLowerCase())))
         )) &&
         (
-          ((!(searchTerm.includes("#modified") || searchTerm.includes("#mod"))) || r.targetValue !== r.originalTargetValue) &&
+          ((!(searchTerm.includes("#modified") || searchTerm.includes("#mod"))) || t.targetValue !== t.originalTargetValue) &&
           ((!(searchTerm.includes("#unconfirmed") || searchTerm.includes("#unc"))) || r.sourceValue !== r.pastSourceValue) &&
-          ((!(searchTerm.includes("#done") || searchTerm.includes("#don"))) || r.sourceValue !== r.originalTargetValue && r.targetValue === r.originalTargetValue) &&
-          ((!(searchTerm.includes("#undone") || searchTerm.includes("#und"))) || r.sourceValue === r.targetValue || !r.targetValue || r.targetValue == '') &&
-          ((!(searchTerm.includes("#doing") || searchTerm.includes("#doi"))) || r.sourceValue === r.targetValue || !r.targetValue || r.targetValue == '' || r.targetValue !== r.originalTargetValue) &&
-          ((!(searchTerm.includes("#ai") || searchTerm.includes("#ai"))) || (r.aiSuggestion && r.aiSuggestion !== '')) &&
-          ((!(searchTerm.includes("#noai") || searchTerm.includes("#noa"))) || (!r.aiSuggestion || r.aiSuggestion === '' || !rowAiLoading[r.key])) &&
-          ((!(searchTerm.includes("#empty") || searchTerm.includes("#emp"))) || (!r.targetValue || r.targetValue === '')) &&
+          ((!(searchTerm.includes("#done") || searchTerm.includes("#don"))) || r.sourceValue !== t.originalTargetValue && t.targetValue === t.originalTargetValue) &&
+          ((!(searchTerm.includes("#undone") || searchTerm.includes("#und"))) || r.sourceValue === t.targetValue || !t.targetValue || t.targetValue == '') &&
+          ((!(searchTerm.includes("#doing") || searchTerm.includes("#doi"))) || r.sourceValue === t.targetValue || !t.targetValue || t.targetValue == '' || t.targetValue !== t.originalTargetValue) &&
+          ((!(searchTerm.includes("#ai") || searchTerm.includes("#ai"))) || (t.aiSuggestion && t.aiSuggestion !== '')) &&
+          ((!(searchTerm.includes("#noai") || searchTerm.includes("#noa"))) || (!t.aiSuggestion || t.aiSuggestion === '' || !rowAiLoading[aiStateKey(activeLocale, r.key)])) &&
+          ((!(searchTerm.includes("#empty") || searchTerm.includes("#emp"))) || (!t.targetValue || t.targetValue === '')) &&
           ((!(searchTerm.includes("#inarray") || searchTerm.includes("#ina"))) || (/^.*\.\d+$/).test(r.key)) &&
-          ((!(searchTerm.includes("#aifetching") || searchTerm.includes("#aif"))) || (rowAiLoading[r.key] === true))
+          ((!(searchTerm.includes("#error") || searchTerm.includes("#err"))) || rowIssues[r.key]?.some(issue => issue.severity === 'error')) &&
+          ((!(searchTerm.includes("#warning") || searchTerm.includes("#war"))) || rowIssues[r.key]?.some(issue => issue.severity === 'warning')) &&
+          ((!(searchTerm.includes("#glossary") || searchTerm.includes("#glo"))) || !!glossaryIssues[r.key]) &&
+          ((!(searchTerm.includes("#reviewed") || searchTerm.includes("#rev"))) || !!t.review) &&
+          ((!(searchTerm.includes("#issue") || searchTerm.includes("#iss"))) || t.review?.verdict === 'issue') &&
+          ((!(searchTerm.includes("#critical") || searchTerm.includes("#cri"))) || t.review?.severity === 'critical') &&
+          ((!(searchTerm.includes("#aifetching") || searchTerm.includes("#aif"))) || (rowAiLoading[aiStateKey(activeLocale, r.key)] === true))
         )
       )
     })
-  ) || [];
+  }) || [];
+  // reviewed issues are listed worst first
+  if (searchTerms.toLowerCase().includes("#iss")) {
+    const rank = (r: TranslationRow) => SEVERITY_RANK[getLocaleValue(r, activeLocale).review?.severity || 'minor'];
+    filteredRows.sort((a, b) => rank(b) - rank(a));
+  }
 
-  const modifiedCount = activeProject?.rows.filter(r => r.targetValue !== r.originalTargetValue).length || 0;
+  const modifiedCount = activeProject?.rows.filter(r => isModified(r, activeLocale)).length || 0;
   const unconfirmedCount = activeProject?.rows.filter(r => r.sourceValue !== r.pastSourceValue).length || 0;
+  const errorCount = Object.values(rowIssues).filter(issues => issues.some(issue => issue.severity === 'error')).length;
+  const reviewIssueCount = activeProject?.rows.filter(r => getLocaleValue(r, activeLocale).review?.verdict === 'issue').length || 0;
+  const pickedModifiedCount = activeProject?.rows.filter(r => pickedTargets.some(t => isModified(r, t.locale))).length || 0;
 
   return (
     <div className="flex h-screen bg-white overflow-hidden text-slate-900 font-sans selection:bg-indigo-100">
@@ -383,7 +997,7 @@ const App: React.FC<AppProps> = (props) => {
               <div className="flex justify-between items-center w-full">
                 <span className="font-bold truncate text-sm">{p.name}</span>
                 <div className="flex gap-1">
-                  {p.rows.some(r => r.targetValue !== r.originalTargetValue) && (
+                  {p.rows.some(r => Object.keys(r.locales).some(locale => isModified(r, locale))) && (
                     <span className="w-2.5 h-2.5 bg-amber-400 rounded-full shadow-[0_0_12px_rgba(251,191,36,0.6)] animate-pulse" />
                   )}
                   {p.rows.some(r => r.sourceValue !== r.pastSourceValue) && (
@@ -465,6 +1079,14 @@ const App: React.FC<AppProps> = (props) => {
                   >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M19.5 14.25v-2.625a3.375 3.375 0 0 0-3.375-3.375h-1.5A1.125 1.125 0 0 1 13.5 7.125v-1.5a3.375 3.375 0 0 0-3.375-3.375H8.25m6.75 12-3-3m0 0-3 3m3-3v6m-1.5-15H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 0 0-9-9Z" /></svg>
                   </button>
+                  <button
+                    onClick={() => setShowExchange(true)}
+                    disabled={targets.length === 0}
+                    title="Exchange with Translators (XLIFF, CSV, XLSX)"
+                    className="flex-none px-2 py-3.5 lg:px-2 lg:py-4 bg-slate-50 text-slate-500 hover:bg-slate-100 rounded-2xl border border-slate-100 flex items-center justify-center transition-all disabled:opacity-50"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M7.5 21 3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5" /></svg>
+                  </button>
                   <button
                     onClick={handleCopyLink}
                     title="Share with URL"
@@ -473,12 +1095,27 @@ const App: React.FC<AppProps> = (props) => {
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M13.19 8.688a4.5 4.5 0 0 1 1.242 7.244l-4.5 4.5a4.5 4.5 0 0 1-6.364-6.364l1.757-1.757m13.35-.622 1.757-1.757a4.5 4.5 0 0 0-6.364-6.364l-4.5 4.5a4.5 4.5 0 0 0 1.242 7.244" /></svg>
                   </button>
                   <button
-                    onClick={handleCopyRawJson}
-                    title="Copy Target JSON"
+                    onClick={handleCopyRawFile}
+                    title="Copy Target File"
                     className="flex-none px-2 py-3.5 lg:px-2 lg:py-4 bg-slate-50 text-slate-500 hover:bg-slate-100 rounded-2xl border border-slate-100 flex items-center justify-center transition-all"
                   >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg>
                   </button>
+                  <button
+                    onClick={() => setShowGlossary(true)}
+                    title="Glossary"
+                    className="flex-none px-2 py-3.5 lg:px-2 lg:py-4 bg-slate-50 text-slate-500 hover:bg-slate-100 rounded-2xl border border-slate-100 flex items-center justify-center transition-all"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 6.042A8.967 8.967 0 0 0 6 3.75c-1.052 0-2.062.18-3 .512v14.25A8.987 8.987 0 0 1 6 18c2.305 0 4.408.867 6 2.292m0-14.25a8.966 8.966 0 0 1 6-2.292c1.052 0 2.062.18 3 .512v14.25A8.987 8.987 0 0 0 18 18a8.967 8.967 0 0 0-6 2.292m0-14.25v14.25" /></svg>
+                  </button>
+                  <button
+                    onClick={handlePrefillFromMemory}
+                    disabled={loading || memory.length === 0}
+                    title="Pre-fill 100% Translation Memory Matches"
+                    className="flex-none px-2 py-3.5 lg:px-2 lg:py-4 bg-slate-50 text-slate-500 hover:bg-slate-100 rounded-2xl border border-slate-100 flex items-center justify-center transition-all disabled:opacity-50"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="m20.25 7.5-.625 10.632a2.25 2.25 0 0 1-2.247 2.118H6.622a2.25 2.25 0 0 1-2.247-2.118L3.75 7.5M10 11.25h4M3.375 7.5h17.25c.621 0 1.125-.504 1.125-1.125v-1.5c0-.621-.504-1.125-1.125-1.125H3.375c-.621 0-1.125.504-1.125 1.125v1.5c0 .621.504 1.125 1.125 1.125Z" /></svg>
+                  </button>
                   <button
                     onClick={e => { setShowDialogSuggestAll(true); }}
                     disabled={loading || activeProject.rows.length === 0}
@@ -490,11 +1127,11 @@ const App: React.FC<AppProps> = (props) => {
                 </div>
                 <button
                   onClick={handlePushToGitHub}
-                  disabled={loading || modifiedCount === 0 || !settings.githubToken}
+                  disabled={loading || pickedModifiedCount === 0 || (!githubToken && providerOf(activeProject.config).hosted)}
                   className="flex-none p-3.5 lg:px-8 lg:py-4 bg-emerald-600 hover:bg-emerald-700 text-white rounded-2xl shadow-xl shadow-emerald-600/20 flex items-center justify-center gap-3 text-sm font-black disabled:opacity-50 transition-all active:scale-95"
                 >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-                  <div className="max-xl:hidden">Push</div>
+                  <div className="max-xl:hidden">{activeProject.config.pushMode === 'pull-request' ? 'Propose' : activeProject.config.provider === 'local' ? 'Save' : 'Push'}</div>
                 </button>
                 <button
                   onClick={() => setShowConfig(!showConfig)}
@@ -505,30 +1142,102 @@ const App: React.FC<AppProps> = (props) => {
               </div>
             </header>
 
+            {pullRequest && (
+              <div className="bg-emerald-50 border-b border-emerald-100 px-6 lg:px-12 py-4 flex items-center gap-4 text-sm animate-in fade-in duration-500">
+                <svg className="w-5 h-5 text-emerald-600 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" /></svg>
+                <span className="font-bold text-emerald-800">
+                  {providerOf(activeProject.config).pullRequest} {providerOf(activeProject.config).reference}{pullRequest.number} {pullRequest.created ? 'opened' : 'updated'}:
+                </span>
+                <a href={pullRequest.url} target="_blank" rel="noreferrer" className="font-mono text-emerald-700 underline break-all hover:text-emerald-900">{pullRequest.url}</a>
+                <button onClick={() => setPullRequest(null)} className="ml-auto p-1.5 text-emerald-400 hover:text-emerald-700 rounded-lg transition-colors" title="Dismiss">
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+            )}
+
             {showConfig && (
               <div className="bg-white border-b border-slate-200 p-6 lg:p-12 grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-16 animate-in fade-in slide-in-from-top-8 duration-500 z-20 shadow-2xl overflow-y-auto max-h-[75vh]">
                 <div className="space-y-8">
                   <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest px-2">Local Configuration</h3>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
                     <div className="space-y-2">
-                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Repo Owner</label>
-                      <input
-                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all"
-                        value={activeProject.config.owner}
-                        onChange={e => updateActiveProject({ config: { ...activeProject.config, owner: e.target.value } })}
-                        placeholder="e.g. google"
-                      />
+                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Provider</label>
+                      <select
+                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none appearance-none cursor-pointer"
+                        value={activeProject.config.provider || 'github'}
+                        onChange={e => updateActiveProject({
+                          config: {
+                            ...activeProject.config,
+                            provider: e.target.value as ProviderKind,
+                            // local files are saved in place; there is nothing to propose against
+                            ...(e.target.value === 'local' ? { pushMode: 'commit' as const, branch: 'local' } : {}),
+                          }
+                        })}
+                      >
+                        {(Object.keys(repositoryProviders) as ProviderKind[]).filter(kind => repositoryProviders[kind].listed || kind === activeProject.config.provider).map(kind => (
+                          <option key={kind} value={kind}>{repositoryProviders[kind].label}</option>
+                        ))}
+                      </select>
                     </div>
                     <div className="space-y-2">
-                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Repo Name</label>
+                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">API Base URL</label>
                       <input
-                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all"
-                        value={activeProject.config.repo}
-                        onChange={e => updateActiveProject({ config: { ...activeProject.config, repo: e.target.value } })}
-                        placeholder="e.g. gen-ui"
+                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                        value={activeProject.config.apiBaseUrl || ''}
+                        onChange={e => updateActiveProject({ config: { ...activeProject.config, apiBaseUrl: e.target.value } })}
+                        placeholder={providerOf(activeProject.config).apiBaseUrl || 'Not used'}
+                        disabled={!providerOf(activeProject.config).hosted}
+                        title="For a self-hosted server, e.g. https://your-host/api/v3 (GitHub Enterprise), /api/v4 (GitLab) or /api/v1 (Gitea)"
                       />
                     </div>
                   </div>
+                  {activeProject.config.provider === 'local' ? (
+                    <div
+                      onDragOver={e => e.preventDefault()}
+                      onDrop={e => { e.preventDefault(); handleOpenWorkspace(() => openDroppedWorkspace(e.dataTransfer)); }}
+                      className="p-6 border-2 border-dashed border-slate-200 rounded-[2rem] flex flex-col sm:flex-row sm:items-center gap-4"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="font-mono text-sm text-slate-700 break-all">{activeProject.config.repo || 'No workspace'}</div>
+                        <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">
+                          {activeProject.config.repo && isWorkspaceOpen(activeProject.config.repo) ? 'Open' : 'Drop a folder or zip here'}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleOpenWorkspace(openDirectoryWorkspace)}
+                        className="px-6 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all"
+                      >
+                        Open Folder
+                      </button>
+                      <button
+                        onClick={handleOpenWorkspaceZip}
+                        className="px-6 py-3 bg-slate-50 text-slate-600 border border-slate-100 hover:bg-slate-100 rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all"
+                      >
+                        Open Zip
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Repo Owner</label>
+                        <input
+                          className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all"
+                          value={activeProject.config.owner}
+                          onChange={e => updateActiveProject({ config: { ...activeProject.config, owner: e.target.value } })}
+                          placeholder="e.g. google"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Repo Name</label>
+                        <input
+                          className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all"
+                          value={activeProject.config.repo}
+                          onChange={e => updateActiveProject({ config: { ...activeProject.config, repo: e.target.value } })}
+                          placeholder="e.g. gen-ui"
+                        />
+                      </div>
+                    </div>
+                  )}
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
                     <div className="space-y-2">
                       <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Active Branch</label>
@@ -536,29 +1245,114 @@ const App: React.FC<AppProps> = (props) => {
                         className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all"
                         value={activeProject.config.branch}
                         onChange={e => updateActiveProject({ config: { ...activeProject.config, branch: e.target.value } })}
+                        disabled={activeProject.config.provider === 'local'}
                       />
                     </div>
                     <div className="space-y-2">
                       <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Intelligence Core</label>
                       <select
                         className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none appearance-none cursor-pointer"
-                        value={activeProject.selectedModel}
-                        onChange={e => updateActiveProject({ selectedModel: e.target.value as GeminiModel })}
+                        value={activeProject.ai.provider}
+                        onChange={e => {
+                          const provider = e.target.value as AiProviderKind;
+                          updateActiveProject({ ai: { provider, model: aiProviders[provider].models[0], baseUrl: aiProviders[provider].customBaseUrl ? activeProject.ai.baseUrl : undefined } });
+                        }}
                       >
-                        {Object.values(GeminiModel).map(model => (
-                          <option value={model} title={model.startsWith("gemma") ? "Gemma<=3 is not support json mime (unstable)" : ""}>
-                            {model} {model.startsWith("gemma") ? "(unstable)" : ""}
-                          </option>
+                        {(Object.keys(aiProviders) as AiProviderKind[]).map(provider => (
+                          <option key={provider} value={provider}>{aiProviders[provider].label}</option>
                         ))}
                       </select>
                     </div>
                   </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Model</label>
+                      <input
+                        list="ai-models"
+                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                        value={activeProject.ai.model}
+                        onChange={e => updateActiveProject({ ai: { ...activeProject.ai, model: e.target.value } })}
+                        title={activeProject.ai.model.startsWith("gemma") ? "Gemma<=3 is not support json mime (unstable)" : ""}
+                      />
+                      <datalist id="ai-models">
+                        {aiProviders[activeProject.ai.provider].models.map(model => (
+                          <option key={model} value={model}>{model.startsWith("gemma") ? "(unstable)" : ""}</option>
+                        ))}
+                      </datalist>
+                    </div>
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">AI Base URL</label>
+                      <input
+                        placeholder={aiProviders[activeProject.ai.provider].customBaseUrl ? "https://api.openai.com/v1" : "Not configurable"}
+                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono disabled:opacity-50"
+                        value={activeProject.ai.baseUrl || ''}
+                        onChange={e => updateActiveProject({ ai: { ...activeProject.ai, baseUrl: e.target.value || undefined } })}
+                        disabled={!aiProviders[activeProject.ai.provider].customBaseUrl}
+                        title="e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp"
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                    {([['inputTokens', 'Input Token Limit'], ['outputTokens', 'Output Token Limit']] as const).map(([field, label]) => (
+                      <div key={field} className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-500 uppercase ml-2">{label}</label>
+                        <input
+                          type="number"
+                          min="1"
+                          placeholder={String(tokenBudget({ ...activeProject.ai, [field]: undefined })[field === 'inputTokens' ? 'input' : 'output'])}
+                          className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                          value={activeProject.ai[field] || ''}
+                          onChange={e => updateActiveProject({ ai: { ...activeProject.ai, [field]: parseInt(e.target.value) || undefined } })}
+                          title="Known for the model when empty; set it for local or unlisted models"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  {activeProject.config.provider !== 'local' && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Push Mode</label>
+                        <select
+                          className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none appearance-none cursor-pointer"
+                          value={activeProject.config.pushMode || 'commit'}
+                          onChange={e => updateActiveProject({ config: { ...activeProject.config, pushMode: e.target.value as PushMode } })}
+                        >
+                          <option value="commit">Commit to branch</option>
+                          <option value="pull-request">Propose changes ({providerOf(activeProject.config).pullRequest.toLowerCase()})</option>
+                        </select>
+                      </div>
+                      {activeProject.config.pushMode === 'pull-request' && (
+                        <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Translation Branch</label>
+                          <input
+                            className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                            value={activeProject.config.proposalBranch || ''}
+                            onChange={e => updateActiveProject({ config: { ...activeProject.config, proposalBranch: e.target.value } })}
+                            placeholder={proposalBranchName({ ...activeProject.config, proposalBranch: '' })}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
+                    <div className="space-y-2">
+                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Project Token</label>
+                      <input
+                        type="password"
+                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                        value={settings.projectTokens?.[activeProject.id] || ''}
+                        onChange={e => setSettings({ ...settings, projectTokens: { ...settings.projectTokens, [activeProject.id]: e.target.value } })}
+                        placeholder={settings.githubToken ? 'Uses the global token' : 'No token'}
+                        title="Overrides the global token for this project only, e.g. for GitLab or Gitea. It stays in this browser and is not included in project exports."
+                      />
+                    </div>
+                  </div>
                   <div className="pt-6 flex flex-col sm:flex-row gap-4">
                     <button
                       onClick={handleFetchFiles}
                       className="flex-1 py-4 lg:py-5 bg-slate-900 text-white rounded-[2rem] font-black hover:bg-black transition-all text-xs uppercase tracking-widest shadow-2xl active:scale-95"
                     >
-                      Update from GitHub
+                      Update from {providerOf(activeProject.config).label}
                     </button>
                     <button
                       onClick={handleDeleteProject}
@@ -575,25 +1369,134 @@ const App: React.FC<AppProps> = (props) => {
                   </div>
                 </div>
                 <div className="space-y-8">
-                  <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest px-2">Path Mapping</h3>
+                  <div className="flex justify-between items-center">
+                    <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest px-2">Path Mapping</h3>
+                    <button
+                      onClick={() => handleOpenRepoBrowser(null)}
+                      className="text-[10px] font-black text-indigo-600 uppercase tracking-widest px-3 py-1.5 rounded-xl hover:bg-indigo-50 transition-all"
+                    >
+                      Discover Locale Files
+                    </button>
+                  </div>
                   <div className="space-y-6">
                     <div className="space-y-2">
-                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Source Locale JSON Path</label>
-                      <input
-                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
-                        value={activeProject.config.sourcePath}
-                        onChange={e => updateActiveProject({ config: { ...activeProject.config, sourcePath: e.target.value } })}
-                        placeholder="locales/en.json"
-                      />
+                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Source Locale File Path</label>
+                      <div className="flex gap-3">
+                        <input
+                          className="w-24 shrink-0 p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                          value={activeProject.config.sourceLocale}
+                          onChange={e => updateActiveProject({ config: { ...activeProject.config, sourceLocale: e.target.value } })}
+                          placeholder="en"
+                        />
+                        <input
+                          className={`w-full p-4 bg-slate-50 border rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono ${isMissingPath(activeProject.config.sourcePath) ? 'border-rose-300 text-rose-600' : 'border-slate-100'}`}
+                          value={activeProject.config.sourcePath}
+                          onChange={e => handleChangeSourcePath(e.target.value)}
+                          placeholder="locales/en.json"
+                          title={isMissingPath(activeProject.config.sourcePath) ? `Not found on ${activeProject.config.branch}` : undefined}
+                        />
+                        <button
+                          onClick={() => handleOpenRepoBrowser('source')}
+                          className="shrink-0 px-4 text-slate-400 hover:text-indigo-600 rounded-2xl hover:bg-indigo-50 transition-all"
+                          title="Pick from Repository"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" /></svg>
+                        </button>
+                      </div>
                     </div>
                     <div className="space-y-2">
-                      <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Target Locale JSON Path</label>
-                      <input
-                        className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
-                        value={activeProject.config.targetPath}
-                        onChange={e => updateActiveProject({ config: { ...activeProject.config, targetPath: e.target.value } })}
-                        placeholder="locales/ko.json"
-                      />
+                      <div className="flex justify-between items-center">
+                        <label className="text-[10px] font-black text-slate-500 uppercase ml-2">Target Locale File Paths</label>
+                        <div className="flex gap-1">
+                          <button
+                            onClick={handleStartNewLocale}
+                            className="text-[10px] font-black text-emerald-600 uppercase tracking-widest px-3 py-1.5 rounded-xl hover:bg-emerald-50 transition-all"
+                            title="Start a new language; its file is created on the next push"
+                          >
+                            + New Locale
+                          </button>
+                          <button
+                            onClick={handleAddTarget}
+                            className="text-[10px] font-black text-indigo-600 uppercase tracking-widest px-3 py-1.5 rounded-xl hover:bg-indigo-50 transition-all"
+                          >
+                            + Add Target
+                          </button>
+                        </div>
+                      </div>
+                      {newLocale && (
+                        <div className="p-4 bg-emerald-50/50 border border-emerald-100 rounded-3xl space-y-3">
+                          <div className="flex gap-3">
+                            <input
+                              autoFocus
+                              className="w-24 shrink-0 p-4 bg-white border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-emerald-500/5 transition-all font-mono"
+                              value={newLocale.locale}
+                              onChange={e => setNewLocale({ ...newLocale, locale: e.target.value })}
+                              onKeyDown={e => e.key === 'Enter' && handleAddLocale()}
+                              placeholder="ja"
+                            />
+                            <input
+                              className="w-full p-4 bg-white border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-emerald-500/5 transition-all font-mono"
+                              value={newLocale.template}
+                              onChange={e => setNewLocale({ ...newLocale, template: e.target.value })}
+                              onKeyDown={e => e.key === 'Enter' && handleAddLocale()}
+                              placeholder="locales/{lang}.json"
+                              title="Path of the new file; {lang} is replaced by the locale code"
+                            />
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="flex-1 min-w-0 font-mono text-[11px] text-slate-500 break-all">
+                              {newLocale.locale.trim() && newLocale.template.trim() ? pathForLocale(newLocale.template.trim(), newLocale.locale.trim()) : 'Locale code and path template, e.g. locales/{lang}.json'}
+                            </span>
+                            <button
+                              onClick={() => setNewLocale(null)}
+                              className="px-4 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest rounded-xl hover:bg-white transition-all"
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              onClick={handleAddLocale}
+                              disabled={!newLocale.locale.trim() || !newLocale.template.trim()}
+                              className="px-5 py-2 bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest rounded-xl active:scale-95 transition-all disabled:opacity-50"
+                            >
+                              Add
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                      {activeProject.config.targets.length === 0 && (
+                        <p className="text-[11px] text-slate-400 font-bold italic ml-2">No target locales yet.</p>
+                      )}
+                      {activeProject.config.targets.map((target, index) => (
+                        <div key={index} className="flex gap-3">
+                          <input
+                            className="w-24 shrink-0 p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                            value={target.locale}
+                            onChange={e => handleChangeTargetLocale(index, e.target.value)}
+                            placeholder="ko"
+                          />
+                          <input
+                            className={`w-full p-4 bg-slate-50 border rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono ${isMissingPath(target.path) ? 'border-rose-300 text-rose-600' : 'border-slate-100'}`}
+                            value={target.path}
+                            onChange={e => handleChangeTargetPath(index, e.target.value)}
+                            placeholder="locales/ko.json"
+                            title={isMissingPath(target.path) ? `Not found on ${activeProject.config.branch}; the next push creates it` : undefined}
+                          />
+                          <button
+                            onClick={() => handleOpenRepoBrowser(index)}
+                            className="shrink-0 px-4 text-slate-400 hover:text-indigo-600 rounded-2xl hover:bg-indigo-50 transition-all"
+                            title="Pick from Repository"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" /></svg>
+                          </button>
+                          <button
+                            onClick={() => handleRemoveTarget(index)}
+                            className="shrink-0 px-4 text-slate-300 hover:text-rose-500 rounded-2xl hover:bg-rose-50 transition-all"
+                            title="Remove Target Locale"
+                          >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                          </button>
+                        </div>
+                      ))}
                     </div>
                     <div className="p-6 bg-slate-900 rounded-3xl border border-slate-800 flex items-start gap-4">
                       <div className="w-8 h-8 rounded-full bg-amber-500 flex items-center justify-center shrink-0 shadow-lg">
@@ -666,7 +1569,13 @@ const App: React.FC<AppProps> = (props) => {
                             { tag: "#ai", desc: "AI suggestions present" },
                             { tag: "#noai, #noa", desc: "No AI data yet" },
                             { tag: "#aifetching, #aif", desc: "Awaiting AI core" },
-                            { tag: "#inarray, #ina", desc: "Manifest arrays" }
+                            { tag: "#inarray, #ina", desc: "Manifest arrays" },
+                            { tag: "#error, #err", desc: "Broken placeholders or syntax" },
+                            { tag: "#warning, #war", desc: "Suspicious placeholders or tags" },
+                            { tag: "#glossary, #glo", desc: "Glossary terms not followed" },
+                            { tag: "#reviewed, #rev", desc: "Reviewed by AI" },
+                            { tag: "#issue, #iss", desc: "AI review issues, worst first" },
+                            { tag: "#critical, #cri", desc: "Critical review issues" }
                           ].map(item => (
                             <div key={item.tag} className="space-y-1">
                               <code className="text-indigo-600 font-black text-xs">{item.tag}</code>
@@ -681,11 +1590,41 @@ const App: React.FC<AppProps> = (props) => {
                 <div className="flex items-center gap-4 text-[10px] font-black text-slate-300 uppercase tracking-widest whitespace-nowrap no-scrollbar">
                   {unconfirmedCount > 0 && <span className="text-rose-600 bg-rose-50 px-3 py-1.5 rounded-xl border border-rose-100 shadow-sm">{unconfirmedCount} Unconfirmed</span>}
                   {modifiedCount > 0 && <span className="text-amber-600 bg-amber-50 px-3 py-1.5 rounded-xl border border-amber-100 shadow-sm">{modifiedCount} Modified</span>}
+                  {errorCount > 0 && <span className="text-rose-600 bg-rose-50 px-3 py-1.5 rounded-xl border border-rose-100 shadow-sm">{errorCount} Errors</span>}
+                  {reviewIssueCount > 0 && <span className="text-violet-600 bg-violet-50 px-3 py-1.5 rounded-xl border border-violet-100 shadow-sm">{reviewIssueCount} Issues</span>}
                   <span className="hidden sm:inline w-1 h-1 bg-slate-200 rounded-full"></span>
                   <span>{filteredRows.length} Entries</span>
                 </div>
               </div>
 
+              {targets.length > 0 && (
+                <div className="px-6 lg:px-12 py-3 bg-white border-b border-slate-100 flex items-center gap-3 overflow-x-auto no-scrollbar">
+                  <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest whitespace-nowrap">Locales</span>
+                  {targets.map(target => {
+                    const count = activeProject.rows.filter(r => isModified(r, target.locale)).length;
+                    const picked = !unpickedLocales[target.locale];
+                    return (
+                      <div
+                        key={target.locale}
+                        className={`flex items-center gap-2 pl-2 pr-4 py-1.5 rounded-xl border whitespace-nowrap transition-all ${target.locale === activeLocale ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-slate-50 border-slate-100 text-slate-400 hover:bg-slate-100'}`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={picked}
+                          onChange={() => setUnpickedLocales({ ...unpickedLocales, [target.locale]: picked })}
+                          title="Include in Fetch, AI Suggest and Push"
+                          className="cursor-pointer accent-indigo-600"
+                        />
+                        <button onClick={() => setActiveLocaleId(target.locale)} className="text-[11px] font-black font-mono uppercase tracking-wider">
+                          {target.locale || '?'}
+                        </button>
+                        {count > 0 && <span className="text-[9px] font-black text-amber-600 bg-amber-50 px-2 rounded-full">{count}</span>}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               <div style={{ height: "100%" }} className="flex-1 overflow-auto p-4 lg:p-12">
                 {filteredRows.length === 0 ? (
                   <div className="h-full flex flex-col items-center justify-center p-12 text-center">
@@ -710,7 +1649,7 @@ const App: React.FC<AppProps> = (props) => {
                     <div className="hidden lg:grid grid-cols-[320px_1fr_1fr_1fr] bg-white border-b border-slate-100 text-[10px] font-black text-slate-400 uppercase tracking-widest p-8 sticky top-0 z-10 bg-white/95 backdrop-blur-sm">
                       <div>ENTRY PATH</div>
                       <div>SOURCE STRING</div>
-                      <div>TARGET LOCALE</div>
+                      <div>TARGET LOCALE {activeLocale && <span className="text-indigo-400 font-mono">({activeLocale})</span>}</div>
                       <div>AI SUGGESTION</div>
                     </div>
 
@@ -718,19 +1657,57 @@ const App: React.FC<AppProps> = (props) => {
                       <Virtuoso
                         style={{ height: "100%" }}
                         data={filteredRows}
-                        itemContent={(_, row) => (
-                          <div key={row.key} className={`bg-white rounded-3xl lg:rounded-none border lg:border-none shadow-xl shadow-slate-900/5 lg:shadow-none p-6 lg:p-10 flex flex-col lg:grid lg:grid-cols-[320px_1fr_1fr_1fr] gap-6 lg:gap-12 items-start transition-all ${row.targetValue !== row.originalTargetValue ? 'bg-amber-50/10 lg:bg-amber-50/10 border-amber-100' : 'hover:bg-slate-50/20'}`}>
+                        itemContent={(_, row) => {
+                          const value = getLocaleValue(row, activeLocale);
+                          const issues = [...(rowIssues[row.key] || []), ...(glossaryIssues[row.key] || [])];
+                          const icuLayout = (row.valueType || 'string') === 'string' ? icuEditorParts(row.sourceValue, value.targetValue, activeLocale) : null;
+                          const icuEditor = rawIcuRows[row.key] ? null : icuLayout;
+                          const memoryMatches = (row.valueType || 'string') === 'string' ? memoryMatchesFor(row.sourceValue).filter(match => match.entry.target !== value.targetValue) : [];
+                          const aiKey = aiStateKey(activeLocale, row.key);
+                          return (
+                          <div key={row.key} className={`bg-white rounded-3xl lg:rounded-none border lg:border-none shadow-xl shadow-slate-900/5 lg:shadow-none p-6 lg:p-10 flex flex-col lg:grid lg:grid-cols-[320px_1fr_1fr_1fr] gap-6 lg:gap-12 items-start transition-all ${value.targetValue !== value.originalTargetValue ? 'bg-amber-50/10 lg:bg-amber-50/10 border-amber-100' : 'hover:bg-slate-50/20'}`}>
                             {/* Key Column */}
                             <div className="w-full lg:w-auto overflow-hidden">
                               <label className="lg:hidden text-[9px] font-black text-slate-400 uppercase mb-3 block tracking-widest">Entry Path</label>
-                              <div className="text-[10px] lg:text-[11px] font-mono text-slate-400 break-all leading-relaxed font-bold tracking-tighter bg-slate-50 p-4 lg:bg-transparent lg:p-0 rounded-2xl border lg:border-none border-slate-100">{row.key}</div>
+                              <div className="text-[10px] lg:text-[11px] font-mono text-slate-400 break-all leading-relaxed font-bold tracking-tighter bg-slate-50 p-4 lg:bg-transparent lg:p-0 rounded-2xl border lg:border-none border-slate-100">{displayKey(row.key)}</div>
+                              {row.meta && (
+                                <div className="mt-3 space-y-2">
+                                  <div className="flex flex-wrap gap-1.5">
+                                    {row.meta.context && <span className="text-[9px] font-black text-violet-600 bg-violet-50 px-2 py-0.5 rounded-lg uppercase tracking-widest">ctx {row.meta.context}</span>}
+                                    {row.meta.pluralForm !== undefined && <span className="text-[9px] font-black text-sky-600 bg-sky-50 px-2 py-0.5 rounded-lg uppercase tracking-widest">plural [{row.meta.pluralForm}]</span>}
+                                    {row.meta.flags?.map(flag => <span key={flag} className="text-[9px] font-black text-slate-400 bg-slate-100 px-2 py-0.5 rounded-lg uppercase tracking-widest">{flag}</span>)}
+                                  </div>
+                                  {row.meta.comments?.map((comment, i) => <p key={i} className="text-[10px] text-slate-500 italic leading-relaxed">{comment}</p>)}
+                                  {row.meta.references && row.meta.references.length > 0 && (
+                                    <p className="text-[9px] font-mono text-slate-300 break-all leading-relaxed" title={row.meta.references.join('\n')}>{row.meta.references.slice(0, 3).join(' ')}{row.meta.references.length > 3 ? ` +${row.meta.references.length - 3}` : ''}</p>
+                                  )}
+                                </div>
+                              )}
                             </div>
 
                             {/* Source Column */}
                             <div className="w-full relative group" title={`${row.sourceValue}/${row.pastSourceValue}`}>
                               <label className="lg:hidden text-[9px] font-black text-indigo-400 uppercase mb-3 block tracking-widest">Source String</label>
                               <div className={`text-sm lg:text-sm p-5 lg:p-7 rounded-2xl lg:rounded-[2.5rem] bg-slate-50/50 border ${row.pastSourceValue !== row.sourceValue ? 'border-rose-300 ring-8 ring-rose-500/5 bg-rose-500/5' : 'border-slate-100/50 shadow-inner'} whitespace-pre-wrap text-slate-700 leading-relaxed font-black`}>
-                                {row.sourceValue}
+                                {(() => {
+                                  // glossary terms are marked with the translation they need
+                                  const found = (row.valueType || 'string') === 'string' ? findTerms(row.sourceValue, glossary) : [];
+                                  if (found.length === 0) return row.sourceValue;
+                                  const pieces: React.ReactNode[] = [];
+                                  let last = 0;
+                                  found.forEach(({ term, start, end }, i) => {
+                                    pieces.push(row.sourceValue.substring(last, start));
+                                    const required = termTarget(term, activeLocale);
+                                    pieces.push(
+                                      <mark key={i} className="bg-teal-100 text-teal-900 rounded px-0.5" title={term.doNotTranslate ? 'Do not translate' : required ? `${activeLocale}: ${required}` : `No ${activeLocale} translation in the glossary`}>
+                                        {row.sourceValue.substring(start, end)}
+                                      </mark>
+                                    );
+                                    last = end;
+                                  });
+                                  pieces.push(row.sourceValue.substring(last));
+                                  return pieces;
+                                })()}
                                 {row.pastSourceValue !== row.sourceValue && (<>
                                   <span className="absolute -top-3 -right-3 max-lg:hidden group-hover:hidden bg-rose-500 text-[9px] lg:text-[10px] font-black text-white px-4 py-1.5 rounded-full border-4 border-white uppercase shadow-2xl">
                                     Unconfirm
@@ -751,30 +1728,125 @@ const App: React.FC<AppProps> = (props) => {
                             {/* Target Column */}
                             <div className="w-full relative group">
                               <label className="lg:hidden text-[9px] font-black text-emerald-500 uppercase mb-3 block tracking-widest">Target Locale</label>
-                              <textarea
-                                className={`w-full text-sm lg:text-sm p-5 lg:p-7 rounded-2xl lg:rounded-[2.5rem] border outline-none transition-all min-h-[120px] lg:min-h-[160px] leading-relaxed font-black ${row.targetValue !== row.originalTargetValue ? 'border-amber-300 ring-8 ring-amber-500/5 bg-white shadow-2xl' : 'border-slate-100 bg-white focus:ring-8 focus:ring-indigo-500/5 shadow-sm'}`}
-                                value={row.targetValue}
-                                style={{ resize: 'none' }}
-                                onChange={e => {
-                                  const newRows = activeProject.rows.map(r => r.key === row.key ? {
-                                    ...r,
-                                    targetValue: e.target.value !== "\t" ? e.target.value : row.originalTargetValue
-                                  } : r);
-                                  updateActiveProject({ rows: newRows });
-                                }}
-                                onKeyDown={e => {
-                                  if (e.key === 'Tab') {
-                                    e.preventDefault();
-                                    const newRows = activeProject.rows.map(r => r.key === row.key ? {
-                                      ...r,
-                                      targetValue: row.originalTargetValue
-                                    } : r);
+                              {icuEditor ? (
+                                <div className={`w-full p-5 lg:p-7 rounded-2xl lg:rounded-[2.5rem] border transition-all min-h-[120px] lg:min-h-[160px] flex flex-col gap-3 ${issues.some(issue => issue.severity === 'error') ? 'border-rose-300 ring-8 ring-rose-500/5 bg-white' : value.targetValue !== value.originalTargetValue ? 'border-amber-300 ring-8 ring-amber-500/5 bg-white shadow-2xl' : 'border-slate-100 bg-white shadow-sm'}`}>
+                                  <div className="flex items-center justify-between">
+                                    <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{activeLocale} plural forms</span>
+                                    <button onClick={() => setRawIcuRows({ ...rawIcuRows, [row.key]: true })} className="text-[9px] font-black text-indigo-400 hover:text-indigo-600 uppercase tracking-widest">Raw ICU</button>
+                                  </div>
+                                  {(() => {
+                                    const sourceParts = icuParts(parseIcu(row.sourceValue));
+                                    return icuEditor.map((part, i) => {
+                                      const sourcePart = sourceParts[i];
+                                      if (part.type === 'text') {
+                                        if (part.text === '' && sourcePart.type === 'text' && sourcePart.text.trim() === '') return null;
+                                        return (
+                                          <input
+                                            key={i}
+                                            type="text"
+                                            className="w-full px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl text-sm font-black outline-none focus:ring-4 focus:ring-indigo-500/5"
+                                            value={part.text}
+                                            placeholder={sourcePart.type === 'text' ? sourcePart.text : ''}
+                                            onChange={e => handleEditIcuPart(row, icuEditor, i, { type: 'text', text: e.target.value })}
+                                          />
+                                        );
+                                      }
+                                      const sourceOptions = sourcePart.type === 'text' ? [] : sourcePart.options;
+                                      return (
+                                        <div key={i} className="space-y-2">
+                                          <span className="text-[10px] font-black font-mono text-indigo-500">{`{${part.name}}`} · {part.type}</span>
+                                          {part.options.map((option, j) => (
+                                            <div key={option.key} className="flex items-start gap-3">
+                                              <code className="w-14 shrink-0 pt-2 text-[10px] font-black text-slate-400 text-right">{option.key}</code>
+                                              <textarea
+                                                rows={1}
+                                                style={{ resize: 'none' }}
+                                                className="flex-1 px-4 py-2 bg-slate-50 border border-slate-100 rounded-xl text-sm font-black outline-none focus:ring-4 focus:ring-indigo-500/5"
+                                                value={option.text}
+                                                placeholder={(sourceOptions.find(o => o.key === option.key) || sourceOptions.find(o => o.key === 'other'))?.text}
+                                                onChange={e => handleEditIcuPart(row, icuEditor, i, { ...part, options: part.options.map((o, k) => k === j ? { ...o, text: e.target.value } : o) })}
+                                              />
+                                            </div>
+                                          ))}
+                                        </div>
+                                      );
+                                    });
+                                  })()}
+                                </div>
+                              ) : (row.valueType || 'string') === 'string' ? (
+                                <textarea
+                                  className={`w-full text-sm lg:text-sm p-5 lg:p-7 rounded-2xl lg:rounded-[2.5rem] border outline-none transition-all min-h-[120px] lg:min-h-[160px] leading-relaxed font-black ${issues.some(issue => issue.severity === 'error') ? 'border-rose-300 ring-8 ring-rose-500/5 bg-white' : value.targetValue !== value.originalTargetValue ? 'border-amber-300 ring-8 ring-amber-500/5 bg-white shadow-2xl' : 'border-slate-100 bg-white focus:ring-8 focus:ring-indigo-500/5 shadow-sm'}`}
+                                  value={value.targetValue}
+                                  style={{ resize: 'none' }}
+                                  onChange={e => {
+                                    const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, {
+                                      targetValue: e.target.value !== "\t" ? e.target.value : value.originalTargetValue
+                                    }) : r);
                                     updateActiveProject({ rows: newRows });
-                                  }
-                                }}
-                                placeholder={row.originalTargetValue === '' || !row.originalTargetValue ? "Add translation..." : "Tab to Revert: ".concat(row.originalTargetValue)}
-                              />
-                              {row.targetValue !== row.originalTargetValue && (
+                                  }}
+                                  onKeyDown={e => {
+                                    if (e.key === 'Tab') {
+                                      e.preventDefault();
+                                      const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, {
+                                        targetValue: value.originalTargetValue
+                                      }) : r);
+                                      updateActiveProject({ rows: newRows });
+                                    }
+                                  }}
+                                  placeholder={value.originalTargetValue === '' || !value.originalTargetValue ? "Add translation..." : "Tab to Revert: ".concat(value.originalTargetValue)}
+                                />
+                              ) : (
+                                <div className={`w-full p-5 lg:p-7 rounded-2xl lg:rounded-[2.5rem] border transition-all min-h-[120px] lg:min-h-[160px] flex flex-col gap-4 ${!isValidValue(row, activeLocale) ? 'border-rose-300 ring-8 ring-rose-500/5 bg-white' : value.targetValue !== value.originalTargetValue ? 'border-amber-300 ring-8 ring-amber-500/5 bg-white shadow-2xl' : 'border-slate-100 bg-white shadow-sm'}`}>
+                                  <span className="text-[9px] font-black text-slate-300 uppercase tracking-widest">{row.valueType} value</span>
+                                  {row.valueType === 'boolean' ? (
+                                    <div className="flex gap-2">
+                                      {['true', 'false'].map(option => (
+                                        <button
+                                          key={option}
+                                          onClick={() => {
+                                            const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, { targetValue: option }) : r);
+                                            updateActiveProject({ rows: newRows });
+                                          }}
+                                          className={`px-5 py-2 rounded-xl text-xs font-black font-mono transition-all ${value.targetValue === option ? 'bg-indigo-600 text-white shadow-lg' : 'bg-slate-50 text-slate-400 hover:bg-slate-100'}`}
+                                        >
+                                          {option}
+                                        </button>
+                                      ))}
+                                    </div>
+                                  ) : row.valueType === 'number' ? (
+                                    <input
+                                      type="text"
+                                      inputMode="decimal"
+                                      className="w-full text-sm font-mono font-black outline-none bg-transparent"
+                                      value={value.targetValue}
+                                      onChange={e => {
+                                        const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, { targetValue: e.target.value }) : r);
+                                        updateActiveProject({ rows: newRows });
+                                      }}
+                                      placeholder={value.originalTargetValue}
+                                    />
+                                  ) : (
+                                    <span className="text-sm font-mono font-black text-slate-400">{value.targetValue}</span>
+                                  )}
+                                  {!isValidValue(row, activeLocale) && (
+                                    <span className="text-[10px] font-black text-rose-500 uppercase tracking-widest">Not a valid {row.valueType}</span>
+                                  )}
+                                </div>
+                              )}
+                              {icuLayout && !icuEditor && (
+                                <button onClick={() => setRawIcuRows({ ...rawIcuRows, [row.key]: false })} className="mt-3 px-3 text-[9px] font-black text-indigo-400 hover:text-indigo-600 uppercase tracking-widest">Edit Plural Forms</button>
+                              )}
+                              {issues.length > 0 && (
+                                <div className="mt-3 px-3 space-y-1">
+                                  {issues.map((issue, i) => <p key={i} className={`text-[10px] font-black leading-relaxed ${issue.severity === 'error' ? 'text-rose-500' : 'text-amber-500'}`}>{issue.severity === 'error' ? '✕' : '!'} {issue.message}</p>)}
+                                </div>
+                              )}
+                              {value.comments && value.comments.length > 0 && (
+                                <div className="mt-3 px-3 space-y-1">
+                                  {value.comments.map((comment, i) => <p key={i} className="text-[10px] text-emerald-600 italic leading-relaxed"># {comment}</p>)}
+                                </div>
+                              )}
+                              {value.targetValue !== value.originalTargetValue && (
                                 <span className="absolute -top-3 -right-3 bg-amber-500 text-[9px] lg:text-[10px] font-black text-white px-4 py-1.5 rounded-full border-4 border-white uppercase shadow-2xl">Modified</span>
                               )}
                             </div>
@@ -783,26 +1855,26 @@ const App: React.FC<AppProps> = (props) => {
                             <div className="w-full relative group">
                               <label className="lg:hidden text-[9px] font-black text-purple-500 uppercase mb-3 block tracking-widest">AI Suggestion</label>
                               <div
-                                className={`text-sm lg:text-sm p-5 lg:p-7 rounded-2xl lg:rounded-[2.5rem] min-h-[120px] lg:min-h-[160px] whitespace-pre-wrap transition-all leading-relaxed font-bold ${row.aiSuggestion && !rowAiLoading[row.key]
+                                className={`text-sm lg:text-sm p-5 lg:p-7 rounded-2xl lg:rounded-[2.5rem] min-h-[120px] lg:min-h-[160px] whitespace-pre-wrap transition-all leading-relaxed font-bold ${value.aiSuggestion && !rowAiLoading[aiKey]
                                   ? 'bg-indigo-50/50 border border-indigo-100 text-indigo-900 italic shadow-xl shadow-indigo-500/10'
-                                  : rowAiTemp[row.key] && rowAiLoading[row.key]
+                                  : rowAiTemp[aiKey] && rowAiLoading[aiKey]
                                     ? 'bg-slate-50/50 border border-slate-100 text-indigo-900 italic shadow-xl shadow-slate-500/10'
                                     : 'bg-slate-50/30 border border-dashed border-slate-200 text-slate-200 flex items-center justify-center font-black text-[10px] uppercase tracking-widest opacity-50'}`}
                               >
-                                {row.aiSuggestion && !rowAiLoading[row.key] ? row.aiSuggestion : (rowAiTemp[row.key] && rowAiLoading[row.key] ? <div>{row.aiSuggestion || rowAiTemp[row.key]}<div className="w-2 h-2 centered relative">
+                                {value.aiSuggestion && !rowAiLoading[aiKey] ? value.aiSuggestion : (rowAiTemp[aiKey] && rowAiLoading[aiKey] ? <div>{rowAiTemp[aiKey]}<div className="w-2 h-2 centered relative">
                                   <div className="absolute inset-0 border-[8px] border-indigo-50 rounded-full"></div>
                                   <div className="absolute inset-0 border-[8px] border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
-                                </div></div> : (rowAiLoading[row.key] ?
+                                </div></div> : (rowAiLoading[aiKey] ?
                                   <div>Awaiting AI<div className="w-10 h-10 centered relative">
                                     <div className="absolute inset-0 border-[8px] border-indigo-50 rounded-full"></div>
                                     <div className="absolute inset-0 border-[8px] border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
                                   </div></div> : "No AI"))}
                               </div>
-                              {row.aiSuggestion && !rowAiLoading[row.key] ? (
+                              {value.aiSuggestion && !rowAiLoading[aiKey] ? (
                                 <div>
                                   <button
                                     onClick={() => {
-                                      const newRows = activeProject.rows.map(r => r.key === row.key ? { ...r, aiSuggestion: "" } : r);
+                                      const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, { aiSuggestion: "" }) : r);
                                       updateActiveProject({ rows: newRows });
                                     }}
                                     className="absolute top-3 right-20 lg:top-6 lg:right-17 bg-white text-rose-600 font-black p-2 lg:p-3 rounded-2xl shadow-2xl opacity-80 lg:opacity-0 lg:group-hover:opacity-80 transition-all border border-rose-50 active:scale-75 hover:bg-rose-50"
@@ -811,8 +1883,9 @@ const App: React.FC<AppProps> = (props) => {
                                   </button>
                                   <button
                                     onClick={() => {
-                                      const newRows = activeProject.rows.map(r => r.key === row.key ? { ...r, targetValue: row.aiSuggestion || r.targetValue } : r);
+                                      const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, { targetValue: value.aiSuggestion || value.targetValue }) : r);
                                       updateActiveProject({ rows: newRows });
+                                      rememberTranslations(activeProject, activeLocale, [row], () => value.aiSuggestion || '');
                                     }}
                                     className="absolute top-3 right-3 lg:top-6 lg:right-6 bg-white text-lime-600 p-3 lg:p-4 rounded-2xl shadow-2xl opacity-80 lg:opacity-0 lg:group-hover:opacity-80 transition-all border border-lime-50 active:scale-75 hover:bg-lime-50"
                                   >
@@ -820,33 +1893,29 @@ const App: React.FC<AppProps> = (props) => {
                                   </button>
                                 </div>
                               ) : (
-                                rowAiLoading[row.key] || <button
+                                rowAiLoading[aiKey] || (row.valueType || 'string') !== 'string' || <button
                                   onClick={async () => {
-                                    const updatedRows = [...activeProject.rows];
+                                    let updatedRows = [...activeProject.rows];
 
-                                    if (!settings.geminiApiKey) {
-                                      alert("⚠️ Gemini API Key Missing\nTo use AI suggestions, click the Settings button and use 'Authenticate Gemini' to select your API key.");
-                                      setShowSettings(true);
-                                      return;
-                                    }
+                                    const provider = aiProviderFor(activeProject);
+                                    if (!provider) return;
                                     try {
-                                      setRowAiLoading({ ...rowAiLoading, [row.key]: true });
+                                      setRowAiLoading({ ...rowAiLoading, [aiKey]: true });
                                       const suggestions = await getTranslationSuggestions(
-                                        activeProject.selectedModel, settings.geminiApiKey,
-                                        activeProject.config.sourcePath.split('/').pop()?.replace('.json', '') || 'Source',
-                                        activeProject.config.targetPath.split('/').pop()?.replace('.json', '') || 'Target',
-                                        [{ key: row.key, value: row.sourceValue }]
+                                        provider,
+                                        buildSuggestionPrompt(activeProject, activeLocale, [row], glossary),
+                                        [row.key],
+                                        undefined,
+                                        texts => setRowAiTemp(prev => ({ ...prev, [aiKey]: texts[row.key] ?? prev[aiKey] }))
                                       );
-                                      setRowAiLoading({ ...rowAiLoading, [row.key]: false });
-                                      Object.keys(suggestions).forEach(key => {
-                                        const rowIndex = updatedRows.findIndex(r => r.key === key);
-                                        if (rowIndex !== -1) updatedRows[rowIndex].aiSuggestion = suggestions[key];
-                                      });
+                                      updatedRows = updatedRows.map(r => suggestions[r.key] !== undefined ? setLocaleValue(r, activeLocale, { aiSuggestion: suggestions[r.key] }) : r);
                                       updateActiveProject({ rows: updatedRows });
-                                    } catch (error) {
+                                    } catch (error: any) {
                                       console.error("Error fetching AI suggestion:", error);
-                                      alert("⚠️ Error fetching AI suggestion. Please check the console for details.");
+                                      alert(`⚠️ Error fetching AI suggestion: ${error.message}`);
                                     } finally {
+                                      setRowAiLoading(prev => ({ ...prev, [aiKey]: false }));
+                                      setRowAiTemp(prev => ({ ...prev, [aiKey]: '' }));
                                     }
                                   }}
                                   className="absolute top-3 right-3 lg:top-6 lg:right-6 bg-indigo-600 text-white p-3 lg:p-4 rounded-2xl shadow-2xl opacity-100 lg:opacity-0 lg:group-hover:opacity-100 font-black transition-all border border-indigo-50 active:scale-75 hover:bg-indigo-700"
@@ -854,9 +1923,62 @@ const App: React.FC<AppProps> = (props) => {
                                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
                                 </button>
                               )}
+                              {memoryMatches.length > 0 && (
+                                <div className="mt-3 space-y-2">
+                                  {memoryMatches.map(match => (
+                                    <button
+                                      key={match.entry.target}
+                                      onClick={() => {
+                                        const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, { targetValue: match.entry.target }) : r);
+                                        updateActiveProject({ rows: newRows });
+                                      }}
+                                      title={`Apply · from "${match.entry.source}"${match.entry.origin ? ` in ${match.entry.origin}` : ''}`}
+                                      className="w-full flex items-start gap-3 text-left px-4 py-2 rounded-xl border border-teal-100 bg-teal-50/50 hover:bg-teal-50 transition-all"
+                                    >
+                                      <span className={`shrink-0 text-[9px] font-black px-2 py-0.5 rounded-full ${match.score === 1 ? 'bg-teal-600 text-white' : 'bg-teal-100 text-teal-700'}`}>TM {Math.floor(match.score * 100)}%</span>
+                                      <span className="text-xs font-bold text-teal-900 whitespace-pre-wrap">{match.entry.target}</span>
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                              {value.review && (
+                                <div className="mt-3 px-4 py-3 rounded-xl border border-violet-100 bg-violet-50/40 space-y-2">
+                                  <div className="flex items-center gap-2">
+                                    <span className={`text-[9px] font-black px-2 py-0.5 rounded-full uppercase tracking-widest ${value.review.verdict === 'ok' ? 'bg-lime-100 text-lime-700' : SEVERITY_STYLE[value.review.severity || 'minor']}`}>
+                                      {value.review.verdict === 'ok' ? 'Review OK' : value.review.severity || 'minor'}
+                                    </span>
+                                    {value.review.target !== value.targetValue && <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Outdated</span>}
+                                    <button
+                                      onClick={() => {
+                                        const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, { review: undefined }) : r);
+                                        updateActiveProject({ rows: newRows });
+                                      }}
+                                      title="Dismiss review"
+                                      className="ml-auto text-slate-300 hover:text-rose-500"
+                                    >
+                                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18 18 6M6 6l12 12" /></svg>
+                                    </button>
+                                  </div>
+                                  {value.review.explanation && <p className="text-xs font-bold text-violet-900 leading-relaxed">{value.review.explanation}</p>}
+                                  {value.review.correction && value.review.correction !== value.targetValue && (
+                                    <button
+                                      onClick={() => {
+                                        const newRows = activeProject.rows.map(r => r.key === row.key ? setLocaleValue(r, activeLocale, { targetValue: value.review!.correction! }) : r);
+                                        updateActiveProject({ rows: newRows });
+                                      }}
+                                      title="Apply correction"
+                                      className="w-full flex items-start gap-3 text-left px-3 py-2 rounded-lg bg-white border border-violet-100 hover:bg-violet-50 transition-all"
+                                    >
+                                      <span className="shrink-0 text-[9px] font-black px-2 py-0.5 rounded-full bg-violet-600 text-white">Fix</span>
+                                      <span className="text-xs font-bold text-violet-900 whitespace-pre-wrap">{value.review.correction}</span>
+                                    </button>
+                                  )}
+                                </div>
+                              )}
                             </div>
                           </div>
-                        )}
+                        );
+                        }}
                       />
 
                     </div>
@@ -925,20 +2047,98 @@ const App: React.FC<AppProps> = (props) => {
                     </p>
                   </section>
 
+                  {([['openaiApiKey', 'OpenAI Compatible API Key', 'Leave empty for local servers such as Ollama or llama.cpp.'], ['anthropicApiKey', 'Anthropic API Key', 'Sent straight from this browser to api.anthropic.com.']] as const).map(([field, label, hint]) => (
+                    <section key={field}>
+                      <div className="flex items-center gap-4 mb-6">
+                        <div className="w-2.5 h-10 bg-indigo-500 rounded-full"></div>
+                        <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">{label}</label>
+                      </div>
+                      <input
+                        type="password"
+                        placeholder="**************************************"
+                        className="w-full p-6 lg:p-8 bg-slate-50 border border-slate-100 rounded-[2.5rem] text-sm outline-none font-mono tracking-widest focus:ring-[16px] focus:ring-indigo-500/5 transition-all shadow-inner"
+                        value={settings[field] || ''}
+                        onChange={e => setSettings({ ...settings, [field]: e.target.value })}
+                      />
+                      <p className="mt-5 px-6 text-[11px] text-slate-400 font-bold leading-relaxed opacity-70 italic">{hint}</p>
+                    </section>
+                  ))}
+
                   <section>
                     <div className="flex items-center gap-4 mb-6">
                       <div className="w-2.5 h-10 bg-indigo-500 rounded-full"></div>
-                      <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">AI Suggestion Chunk Size: {settings.suggestionChunkSize}</label>
+                      <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">Max Strings per AI Request: {settings.suggestionChunkSize}</label>
                     </div>
                     <input
                       type="range"
                       min="1"
-                      max="100"
+                      max="200"
                       step="1"
                       className="w-full p-6 lg:p-8 bg-slate-50 border border-slate-100 rounded-[2.5rem] text-sm outline-none font-mono tracking-widest focus:ring-[16px] focus:ring-indigo-500/5 transition-all shadow-inner range-lg cursor-pointer"
                       value={settings.suggestionChunkSize}
                       onChange={e => setSettings({ ...settings, suggestionChunkSize: parseInt(e.target.value) })}
                     />
+                    <p className="mt-5 px-6 text-[11px] text-slate-400 font-bold leading-relaxed opacity-70 italic">Requests are filled up to the model's token limits; long strings get fewer per request and are split when one alone is too long.</p>
+                  </section>
+
+                  <section className="grid grid-cols-1 sm:grid-cols-2 gap-8">
+                    <div>
+                      <label className="block mb-4 text-[12px] font-black text-slate-500 uppercase tracking-widest">Parallel Requests: {settings.suggestionConcurrency || 2}</label>
+                      <input
+                        type="range"
+                        min="1"
+                        max="8"
+                        step="1"
+                        className="w-full cursor-pointer accent-indigo-600"
+                        value={settings.suggestionConcurrency || 2}
+                        onChange={e => setSettings({ ...settings, suggestionConcurrency: parseInt(e.target.value) })}
+                      />
+                    </div>
+                    <div>
+                      <label className="block mb-4 text-[12px] font-black text-slate-500 uppercase tracking-widest">Retries: {settings.suggestionRetries ?? 3}</label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="6"
+                        step="1"
+                        className="w-full cursor-pointer accent-indigo-600"
+                        value={settings.suggestionRetries ?? 3}
+                        onChange={e => setSettings({ ...settings, suggestionRetries: parseInt(e.target.value) })}
+                      />
+                    </div>
+                    <p className="sm:col-span-2 px-2 text-[11px] text-slate-400 font-bold leading-relaxed">Rate-limited, failed or malformed answers are retried with a growing delay.</p>
+                  </section>
+
+                  <section>
+                    <label className="flex items-center gap-4 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="w-5 h-5 cursor-pointer accent-indigo-600"
+                        checked={!!settings.blockOnValidationErrors}
+                        onChange={e => setSettings({ ...settings, blockOnValidationErrors: e.target.checked })}
+                      />
+                      <span className="text-[12px] font-black text-slate-500 uppercase tracking-widest">Block pushes with placeholder or syntax errors</span>
+                    </label>
+                    <p className="mt-3 px-9 text-[11px] text-slate-400 font-bold leading-relaxed">Otherwise you are asked to confirm before they are pushed.</p>
+                  </section>
+
+                  <section>
+                    <div className="flex items-center gap-4 mb-6">
+                      <div className="w-2.5 h-10 bg-teal-500 rounded-full"></div>
+                      <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">Translation Memory: {memory.length} Pairs</label>
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      <button onClick={handleExportMemory} disabled={memory.length === 0} className="px-6 py-3 bg-slate-50 text-slate-500 hover:bg-slate-100 rounded-2xl border border-slate-100 text-[11px] font-black uppercase tracking-widest transition-all disabled:opacity-50">Export TMX</button>
+                      <button onClick={handleImportMemory} className="px-6 py-3 bg-slate-50 text-slate-500 hover:bg-slate-100 rounded-2xl border border-slate-100 text-[11px] font-black uppercase tracking-widest transition-all">Import TMX</button>
+                      <button
+                        onClick={() => { if (confirm(`Forget all ${memory.length} remembered translations?`)) setMemory([]); }}
+                        disabled={memory.length === 0}
+                        className="px-6 py-3 bg-rose-50 text-rose-500 hover:bg-rose-100 rounded-2xl border border-rose-100 text-[11px] font-black uppercase tracking-widest transition-all disabled:opacity-50"
+                      >
+                        Clear
+                      </button>
+                    </div>
+                    <p className="mt-3 px-2 text-[11px] text-slate-400 font-bold leading-relaxed">Translations you accept or push in any project are remembered in this browser and offered for similar sources.</p>
                   </section>
                 </div>
 
@@ -980,9 +2180,44 @@ const App: React.FC<AppProps> = (props) => {
                       type="text"
                       placeholder="e.g. Use formal language, local idioms, etc."
                       className="w-full p-6 lg:p-8 bg-slate-50 border border-slate-100 rounded-[2.5rem] text-sm outline-none font-mono tracking-widest focus:ring-[16px] focus:ring-indigo-500/5 transition-all shadow-inner"
-                      value={additionalInstructions}
-                      onChange={e => setAdditionalInstructions(e.target.value)}
+                      value={promptSettings(activeProject).instructions}
+                      onChange={e => updatePromptSettings({ instructions: e.target.value })}
+                    />
+                  </section>
+                  <section>
+                    <div className="flex items-center justify-between gap-4 mb-6">
+                      <div className="flex items-center gap-4">
+                        <div className="w-2.5 h-10 bg-indigo-500 rounded-full"></div>
+                        <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">Prompt Template</label>
+                      </div>
+                      {promptSettings(activeProject).template !== DEFAULT_PROMPT_TEMPLATE && (
+                        <button onClick={() => updatePromptSettings({ template: DEFAULT_PROMPT_TEMPLATE })} className="text-[10px] font-black text-indigo-400 hover:text-indigo-600 uppercase tracking-widest">Reset</button>
+                      )}
+                    </div>
+                    <textarea
+                      rows={4}
+                      style={{ resize: 'none' }}
+                      className="w-full p-6 lg:p-8 bg-slate-50 border border-slate-100 rounded-[2.5rem] text-sm outline-none font-mono focus:ring-[16px] focus:ring-indigo-500/5 transition-all shadow-inner"
+                      value={promptSettings(activeProject).template}
+                      onChange={e => updatePromptSettings({ template: e.target.value })}
                     />
+                    <p className="mt-3 px-6 text-[11px] text-slate-400 font-bold leading-relaxed"><span className="font-mono">{'{source}'}</span> and <span className="font-mono">{'{target}'}</span> become the locales. Saved with the project.</p>
+                  </section>
+                  <section className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                    {([['examples', 'Translated Examples'], ['siblings', 'Neighboring Strings']] as const).map(([field, label]) => (
+                      <div key={field}>
+                        <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">{label}: {promptSettings(activeProject)[field]}</label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="20"
+                          step="1"
+                          className="w-full mt-4 cursor-pointer"
+                          value={promptSettings(activeProject)[field]}
+                          onChange={e => updatePromptSettings({ [field]: parseInt(e.target.value) })}
+                        />
+                      </div>
+                    ))}
                   </section>
                   <section>
                     <button
@@ -1007,12 +2242,448 @@ const App: React.FC<AppProps> = (props) => {
                   >
                     Confirm & AI Suggest
                   </button>
+                  <button
+                    onClick={() => {
+                      setShowDialogSuggestAll(false);
+                      handleReviewAll();
+                    }}
+                    className="w-full mt-4 py-5 bg-white text-indigo-900 border border-indigo-100 rounded-[2.5rem] lg:rounded-[3rem] font-black uppercase tracking-widest text-[11px] active:scale-95 transition-all hover:bg-indigo-50"
+                  >
+                    Review Existing Translations
+                  </button>
                 </div>
               </div>
             </div>
           </div>
         )}
 
+        {mergeState && activeProject && (
+          <div className="fixed inset-0 bg-slate-900/85 backdrop-blur-2xl z-[100] flex items-center justify-center p-6 lg:p-12">
+            <div className="bg-white w-full max-w-4xl rounded-[3rem] lg:rounded-[4.5rem] shadow-[0_64px_256px_-64px_rgba(0,0,0,0.7)] overflow-hidden animate-in zoom-in-95 duration-500 max-h-[95vh] overflow-y-auto">
+              <div className="p-10 lg:p-16">
+                <div className="flex justify-between items-center mb-10">
+                  <div>
+                    <h2 className="text-4xl lg:text-5xl font-black text-slate-900 tracking-tighter">Conflicts</h2>
+                    <p className="text-[11px] text-slate-400 font-black uppercase tracking-[0.4em] mt-4">{mergeState.conflicts.length} keys changed on both sides since fetch</p>
+                  </div>
+                  <button onClick={() => setMergeState(null)} className="p-5 bg-slate-50 text-slate-400 hover:text-slate-900 rounded-full transition-all active:scale-75 shadow-sm">
+                    <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+
+                <div className="flex flex-wrap gap-3 mb-6">
+                  <button
+                    onClick={() => setMergeState({ ...mergeState, keepLocal: Object.fromEntries(mergeState.conflicts.map(c => [conflictId(c), true])) })}
+                    className="px-5 py-2.5 rounded-2xl text-[11px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600 hover:bg-indigo-100 transition-all"
+                  >
+                    Keep All Mine
+                  </button>
+                  <button
+                    onClick={() => setMergeState({ ...mergeState, keepLocal: {} })}
+                    className="px-5 py-2.5 rounded-2xl text-[11px] font-black uppercase tracking-widest bg-slate-50 text-slate-600 hover:bg-slate-100 transition-all"
+                  >
+                    Take All Theirs
+                  </button>
+                </div>
+
+                <div className="max-h-[50vh] overflow-y-auto border border-slate-100 rounded-[2rem] divide-y divide-slate-100">
+                  {mergeState.conflicts.map(conflict => {
+                    const id = conflictId(conflict);
+                    const keepMine = !!mergeState.keepLocal[id];
+                    const choose = (mine: boolean) => setMergeState({ ...mergeState, keepLocal: { ...mergeState.keepLocal, [id]: mine } });
+                    return (
+                      <div key={id} className="p-5 space-y-3">
+                        <div className="flex items-center gap-2">
+                          <span className="text-[9px] font-black uppercase tracking-widest bg-indigo-50 text-indigo-600 px-2 py-0.5 rounded-full">{conflict.locale}</span>
+                          <span className="font-mono text-[11px] text-slate-500 break-all">{displayKey(conflict.key)}</span>
+                        </div>
+                        {conflict.base !== undefined && (
+                          <div className="text-xs text-slate-400 whitespace-pre-wrap break-words">Was: {stringifyValue(conflict.base)}</div>
+                        )}
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                          <button
+                            onClick={() => choose(false)}
+                            className={`text-left p-4 rounded-2xl border text-sm whitespace-pre-wrap break-words transition-all ${!keepMine ? 'border-emerald-300 bg-emerald-50 text-emerald-900' : 'border-slate-100 bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+                          >
+                            <div className="text-[9px] font-black uppercase tracking-widest mb-2 opacity-60">Theirs (remote)</div>
+                            {conflict.remote !== undefined ? stringifyValue(conflict.remote) : <span className="italic">removed</span>}
+                          </button>
+                          <button
+                            onClick={() => choose(true)}
+                            className={`text-left p-4 rounded-2xl border text-sm whitespace-pre-wrap break-words transition-all ${keepMine ? 'border-indigo-300 bg-indigo-50 text-indigo-900' : 'border-slate-100 bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+                          >
+                            <div className="text-[9px] font-black uppercase tracking-widest mb-2 opacity-60">Mine (local)</div>
+                            {stringifyValue(conflict.local)}
+                          </button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <p className="text-[11px] text-slate-400 font-bold leading-relaxed mt-6">
+                  Keys changed on only one side are merged automatically.
+                </p>
+
+                <div className="mt-8 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <button
+                    onClick={() => setMergeState(null)}
+                    className="py-6 bg-slate-50 text-slate-600 border border-slate-100 hover:bg-slate-100 rounded-[2.5rem] font-black uppercase tracking-widest text-[11px] active:scale-95 transition-all"
+                  >
+                    Cancel Push
+                  </button>
+                  <button
+                    onClick={handleResolveMerge}
+                    className="py-6 bg-emerald-600 text-white rounded-[2.5rem] font-black uppercase tracking-widest text-[11px] active:scale-95 transition-all shadow-xl shadow-emerald-600/20"
+                  >
+                    Merge & Push
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {showGlossary && activeProject && (
+          <div className="fixed inset-0 bg-slate-900/85 backdrop-blur-2xl z-[100] flex items-center justify-center p-6 lg:p-12">
+            <div className="bg-white w-full max-w-5xl rounded-[3rem] lg:rounded-[4.5rem] shadow-[0_64px_256px_-64px_rgba(0,0,0,0.7)] overflow-hidden animate-in zoom-in-95 duration-500 max-h-[95vh] overflow-y-auto">
+              <div className="p-10 lg:p-20">
+                <div className="flex justify-between items-center mb-12 lg:mb-16">
+                  <div>
+                    <h2 className="text-4xl lg:text-5xl font-black text-slate-900 tracking-tighter">Glossary</h2>
+                    <p className="text-[11px] text-slate-400 font-black uppercase tracking-[0.4em] mt-4">terms with one fixed translation</p>
+                  </div>
+                  <button onClick={() => setShowGlossary(false)} className="p-5 bg-slate-50 text-slate-400 hover:text-slate-900 rounded-full transition-all active:scale-75 shadow-sm">
+                    <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+
+                <div className="space-y-4">
+                  {[...(activeProject.glossary || []).map(term => ({ term, shared: false })), ...(settings.sharedGlossary || []).map(term => ({ term, shared: true }))].map(({ term, shared }) => (
+                    <div key={term.id} className="p-5 bg-slate-50 border border-slate-100 rounded-[2rem] space-y-4">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <input
+                          type="text"
+                          placeholder="Source term"
+                          className="flex-1 min-w-[12rem] px-4 py-2.5 bg-white border border-slate-100 rounded-xl text-sm font-black outline-none focus:ring-4 focus:ring-indigo-500/5"
+                          value={term.source}
+                          onChange={e => handleEditGlossaryTerm(term, shared, { source: e.target.value })}
+                        />
+                        {([['doNotTranslate', 'Do not translate'], ['caseSensitive', 'Match case'], ['shared', 'All projects']] as const).map(([field, label]) => {
+                          const checked = field === 'shared' ? shared : !!term[field];
+                          return (
+                            <button
+                              key={field}
+                              onClick={() => handleEditGlossaryTerm(term, shared, { [field]: !checked })}
+                              className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${checked ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-400 border-slate-100 hover:bg-slate-100'}`}
+                            >
+                              {label}
+                            </button>
+                          );
+                        })}
+                        <button
+                          onClick={() => setGlossaryTerms(shared, ((shared ? settings.sharedGlossary : activeProject.glossary) || []).filter(t => t.id !== term.id))}
+                          className="p-2 text-rose-400 hover:text-rose-600 transition-all"
+                          title="Remove Term"
+                        >
+                          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+                        </button>
+                      </div>
+                      {!term.doNotTranslate && (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+                          {targets.map(t => (
+                            <label key={t.locale} className="flex items-center gap-3">
+                              <span className="w-14 shrink-0 text-[10px] font-black font-mono uppercase text-slate-400">{t.locale}</span>
+                              <input
+                                type="text"
+                                className="flex-1 min-w-0 px-4 py-2 bg-white border border-slate-100 rounded-xl text-sm font-bold outline-none focus:ring-4 focus:ring-indigo-500/5"
+                                value={term.targets[t.locale] || ''}
+                                onChange={e => handleEditGlossaryTerm(term, shared, { targets: { ...term.targets, [t.locale]: e.target.value } })}
+                              />
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => setGlossaryTerms(false, [...(activeProject.glossary || []), { id: crypto.randomUUID(), source: '', targets: {} }])}
+                    className="w-full py-5 bg-slate-50 text-slate-500 border border-dashed border-slate-200 hover:bg-slate-100 rounded-[2rem] font-black uppercase tracking-widest text-[11px] transition-all"
+                  >
+                    + Add Term
+                  </button>
+                  <p className="text-[11px] text-slate-400 font-bold leading-relaxed">
+                    Terms are marked in the source column and given to the AI with every suggestion. Translations that leave out a term's required translation are flagged; find them with <span className="font-mono">#glossary</span>.
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {showExchange && activeProject && (
+          <div className="fixed inset-0 bg-slate-900/85 backdrop-blur-2xl z-[100] flex items-center justify-center p-6 lg:p-12">
+            <div className="bg-white w-full max-w-3xl rounded-[3rem] lg:rounded-[4.5rem] shadow-[0_64px_256px_-64px_rgba(0,0,0,0.7)] overflow-hidden animate-in zoom-in-95 duration-500 max-h-[95vh] overflow-y-auto">
+              <div className="p-10 lg:p-20">
+                <div className="flex justify-between items-center mb-12 lg:mb-16">
+                  <div>
+                    <h2 className="text-4xl lg:text-5xl font-black text-slate-900 tracking-tighter">Exchange</h2>
+                    <p className="text-[11px] text-slate-400 font-black uppercase tracking-[0.4em] mt-4">with outside translators</p>
+                  </div>
+                  <button onClick={() => { setShowExchange(false); setImportPreview(null); }} className="p-5 bg-slate-50 text-slate-400 hover:text-slate-900 rounded-full transition-all active:scale-75 shadow-sm">
+                    <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+
+                {!importPreview ? (
+                  <div className="space-y-12 lg:space-y-16">
+                    <section>
+                      <div className="flex items-center gap-4 mb-6">
+                        <div className="w-2.5 h-10 bg-indigo-500 rounded-full"></div>
+                        <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">Format</label>
+                      </div>
+                      <div className="flex flex-wrap gap-3">
+                        {(Object.keys(exchangeFormats) as ExchangeFormat[]).map(format => (
+                          <button
+                            key={format}
+                            onClick={() => setExchangeFormat(format)}
+                            className={`px-6 py-3 rounded-2xl text-[11px] font-black uppercase tracking-widest border transition-all ${exchangeFormat === format ? 'bg-indigo-600 text-white border-indigo-600 shadow-lg shadow-indigo-600/20' : 'bg-slate-50 text-slate-500 border-slate-100 hover:bg-slate-100'}`}
+                          >
+                            {exchangeFormats[format].label}
+                          </button>
+                        ))}
+                      </div>
+                    </section>
+                    <section className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <button
+                        onClick={handleExportExchange}
+                        className="py-7 bg-indigo-900 text-white rounded-[2.5rem] font-black uppercase tracking-widest text-[11px] active:scale-95 transition-all shadow-3xl shadow-indigo-900/20"
+                      >
+                        Export {activeLocale} ({exchangeFormats[exchangeFormat].label})
+                      </button>
+                      <button
+                        onClick={handleImportExchange}
+                        className="py-7 bg-slate-50 text-slate-600 border border-slate-100 hover:bg-slate-100 rounded-[2.5rem] font-black uppercase tracking-widest text-[11px] active:scale-95 transition-all"
+                      >
+                        Import XLIFF / CSV / XLSX
+                      </button>
+                    </section>
+                    <p className="text-[11px] text-slate-400 font-bold leading-relaxed">
+                      Exports every row of the active locale with its source, current target, AI suggestion and status. Imported files are matched by key; CSV and XLSX files need <span className="font-mono">key</span> and <span className="font-mono">target</span> columns.
+                    </p>
+                  </div>
+                ) : (
+                  <div className="space-y-8">
+                    <div className="flex flex-wrap items-center gap-3 text-[11px] font-black uppercase tracking-widest">
+                      <span className="text-slate-500">{importPreview.fileName}</span>
+                      <span className="bg-indigo-50 text-indigo-600 px-3 py-1 rounded-full">{importPreview.locale}</span>
+                      <span className="bg-emerald-50 text-emerald-600 px-3 py-1 rounded-full">{importPreview.changes.length} changes</span>
+                      {importPreview.unknownKeys.length > 0 && (
+                        <span className="bg-amber-50 text-amber-600 px-3 py-1 rounded-full" title={importPreview.unknownKeys.slice(0, 20).join('\n')}>{importPreview.unknownKeys.length} unknown keys skipped</span>
+                      )}
+                    </div>
+                    <div className="max-h-[45vh] overflow-y-auto border border-slate-100 rounded-[2rem] divide-y divide-slate-100">
+                      {importPreview.changes.length === 0 && (
+                        <p className="p-8 text-center text-slate-400 text-sm font-bold">No rows would change.</p>
+                      )}
+                      {importPreview.changes.map(change => (
+                        <div key={change.key} className="p-5 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-[11px] text-slate-500 break-all">{displayKey(change.key)}</span>
+                            {change.sourceChanged && (
+                              <span className="text-[9px] font-black uppercase tracking-widest bg-amber-50 text-amber-600 px-2 py-0.5 rounded-full" title="The source text changed since this file was exported">source changed</span>
+                            )}
+                          </div>
+                          <div className="text-sm text-rose-500 line-through whitespace-pre-wrap break-words">{change.before || <span className="italic no-underline">empty</span>}</div>
+                          <div className="text-sm text-emerald-700 whitespace-pre-wrap break-words">{change.after}</div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <button
+                        onClick={() => setImportPreview(null)}
+                        className="py-6 bg-slate-50 text-slate-600 border border-slate-100 hover:bg-slate-100 rounded-[2.5rem] font-black uppercase tracking-widest text-[11px] active:scale-95 transition-all"
+                      >
+                        Discard
+                      </button>
+                      <button
+                        onClick={handleApplyImport}
+                        disabled={importPreview.changes.length === 0}
+                        className="py-6 bg-emerald-600 text-white rounded-[2.5rem] font-black uppercase tracking-widest text-[11px] active:scale-95 transition-all shadow-xl shadow-emerald-600/20 disabled:opacity-50"
+                      >
+                        Apply {importPreview.changes.length} Changes
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {repoBrowser && activeProject && (
+          <div className="fixed inset-0 bg-slate-900/85 backdrop-blur-2xl z-[110] flex items-center justify-center p-6 lg:p-12">
+            <div className="bg-white w-full max-w-3xl rounded-[3rem] lg:rounded-[4.5rem] shadow-[0_64px_256px_-64px_rgba(0,0,0,0.7)] overflow-hidden animate-in zoom-in-95 duration-500 max-h-[95vh] overflow-y-auto">
+              <div className="p-10 lg:p-20">
+                <div className="flex justify-between items-center mb-12 lg:mb-16">
+                  <div>
+                    <h2 className="text-4xl lg:text-5xl font-black text-slate-900 tracking-tighter">Repository</h2>
+                    <p className="text-[11px] text-slate-400 font-black uppercase tracking-[0.4em] mt-4 break-all">{activeProject.config.owner}/{activeProject.config.repo}</p>
+                  </div>
+                  <button onClick={() => setRepoBrowser(null)} className="p-5 bg-slate-50 text-slate-400 hover:text-slate-900 rounded-full transition-all active:scale-75 shadow-sm">
+                    <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+
+                <div className="space-y-12">
+                  <section>
+                    <div className="flex items-center gap-4 mb-6">
+                      <div className="w-2.5 h-10 bg-indigo-500 rounded-full"></div>
+                      <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">Branch</label>
+                    </div>
+                    <select
+                      className="w-full p-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                      value={activeProject.config.branch}
+                      onChange={e => handleChangeBrowserBranch(e.target.value)}
+                    >
+                      {!repoTree?.branches.includes(activeProject.config.branch) && <option value={activeProject.config.branch}>{activeProject.config.branch}</option>}
+                      {repoTree?.branches.map(branch => <option key={branch} value={branch}>{branch}</option>)}
+                    </select>
+                    {repoTree?.truncated && (
+                      <p className="text-[11px] text-amber-600 font-bold mt-3">This repository is too large to list completely; some files may be missing.</p>
+                    )}
+                  </section>
+
+                  {repoBrowser.field !== null ? (
+                    <section>
+                      <div className="flex items-center gap-4 mb-6">
+                        <div className="w-2.5 h-10 bg-indigo-500 rounded-full"></div>
+                        <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">
+                          {repoBrowser.field === 'source' ? 'Source File' : `Target File ${activeProject.config.targets[repoBrowser.field]?.locale || ''}`}
+                        </label>
+                      </div>
+                      <input
+                        autoFocus
+                        className="w-full p-4 mb-4 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                        value={repoBrowser.filter}
+                        onChange={e => setRepoBrowser({ ...repoBrowser, filter: e.target.value })}
+                        placeholder="Filter files..."
+                      />
+                      <div className="max-h-[40vh] overflow-y-auto border border-slate-100 rounded-[2rem] divide-y divide-slate-100">
+                        {browsedPaths.length === 0 && (
+                          <p className="p-8 text-center text-slate-400 text-sm font-bold">{repoTree ? 'No matching files.' : 'Loading...'}</p>
+                        )}
+                        {browsedPaths.slice(0, 300).map(path => (
+                          <button
+                            key={path}
+                            onClick={() => handlePickPath(path)}
+                            className="w-full text-left px-5 py-3 font-mono text-xs text-slate-600 hover:bg-indigo-50 hover:text-indigo-700 break-all transition-all"
+                          >
+                            {path}
+                          </button>
+                        ))}
+                        {browsedPaths.length > 300 && (
+                          <p className="p-4 text-center text-slate-400 text-[11px] font-bold">…and {browsedPaths.length - 300} more. Narrow the filter.</p>
+                        )}
+                      </div>
+                    </section>
+                  ) : (
+                    <section>
+                      <div className="flex items-center gap-4 mb-6">
+                        <div className="w-2.5 h-10 bg-indigo-500 rounded-full"></div>
+                        <label className="text-[12px] font-black text-slate-500 uppercase tracking-widest">Discover Locale Files</label>
+                      </div>
+                      <input
+                        className="w-full p-4 mb-3 bg-slate-50 border border-slate-100 rounded-2xl text-sm outline-none focus:ring-4 focus:ring-indigo-500/5 transition-all font-mono"
+                        value={repoBrowser.pattern}
+                        onChange={e => setRepoBrowser({ ...repoBrowser, pattern: e.target.value })}
+                        placeholder="src/i18n/{lang}/*.json"
+                      />
+                      <p className="text-[11px] text-slate-400 font-bold leading-relaxed mb-6 px-2">
+                        <span className="font-mono">{'{lang}'}</span> stands for the locale code, <span className="font-mono">*</span> for any file name and <span className="font-mono">**/</span> for any folders. Leave empty to try common layouts ({discoveryPresets.length} presets).
+                      </p>
+                      <div className="space-y-3">
+                        {repoTree && discoveredGroups.length === 0 && (
+                          <p className="p-8 text-center text-slate-400 text-sm font-bold border border-slate-100 rounded-[2rem]">No locale files found.</p>
+                        )}
+                        {discoveredGroups.slice(0, 50).map(group => (
+                          <div key={group.template} className="flex items-center gap-4 p-5 border border-slate-100 rounded-[2rem]">
+                            <div className="flex-1 min-w-0 space-y-1">
+                              <div className="font-mono text-xs text-slate-700 break-all">{group.template}</div>
+                              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                                {group.sourcePath ? `source ${group.sourcePath}` : `no ${activeProject.config.sourceLocale || 'source'} file`}
+                                {group.targets.length > 0 && ` · ${group.targets.map(t => t.locale).join(', ')}`}
+                              </div>
+                            </div>
+                            <button
+                              onClick={() => handleApplyDiscovery(group)}
+                              disabled={!group.sourcePath}
+                              className="shrink-0 px-6 py-3 bg-indigo-600 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest active:scale-95 transition-all disabled:opacity-40"
+                            >
+                              Use
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    </section>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {batchJob && (() => {
+          const settled = batchJob.chunks.filter(chunk => chunk.status === 'done' || chunk.status === 'failed' || chunk.status === 'cancelled').length;
+          const failed = batchJob.chunks.filter(chunk => chunk.status === 'failed');
+          const cancelled = batchJob.chunks.filter(chunk => chunk.status === 'cancelled');
+          const failedKeys = failed.reduce((count, chunk) => count + chunk.keys.length, 0);
+          return (
+            <div className="fixed bottom-6 right-6 left-6 sm:left-auto sm:w-[420px] z-[90] bg-white rounded-[2rem] shadow-2xl border border-slate-100 p-6 space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-[11px] font-black text-slate-900 uppercase tracking-widest">
+                  {batchJob.running ? `${batchJob.label} · ${settled}/${batchJob.chunks.length} chunks` : `${batchJob.label} ${failed.length === 0 && cancelled.length === 0 ? 'finished' : 'stopped'}`}
+                </span>
+                {batchJob.running ? (
+                  <button
+                    onClick={() => batchJob.controller.abort()}
+                    disabled={batchJob.controller.signal.aborted}
+                    className="px-4 py-2 bg-rose-50 text-rose-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-rose-100 disabled:opacity-40"
+                  >
+                    {batchJob.controller.signal.aborted ? 'Cancelling' : 'Cancel'}
+                  </button>
+                ) : (
+                  <button onClick={() => setBatchJob(null)} className="px-4 py-2 bg-slate-100 text-slate-600 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200">Close</button>
+                )}
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-600 transition-all" style={{ width: `${Math.round(settled / batchJob.chunks.length * 100)}%` }}></div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {batchJob.chunks.map((chunk, i) => (
+                  <span
+                    key={i}
+                    className={`w-3 h-3 rounded-sm ${CHUNK_STYLE[chunk.status]}`}
+                    title={`${chunk.locale} · ${chunk.keys.length} keys · ${chunk.status}${chunk.attempts > 1 ? ` after ${chunk.attempts} attempts` : ''}${chunk.error ? `\n${chunk.error}` : ''}`}
+                  ></span>
+                ))}
+              </div>
+              {!batchJob.running && (failed.length > 0 || cancelled.length > 0) && (
+                <div className="max-h-48 overflow-y-auto space-y-2 text-[11px] font-bold">
+                  {failed.length > 0 && <p className="text-rose-600">{failedKeys} keys failed in {failed.length} chunks</p>}
+                  {failed.map((chunk, i) => (
+                    <div key={i} className="px-3 py-2 bg-rose-50 rounded-xl">
+                      <p className="text-rose-700 break-words">{chunk.locale}: {chunk.error}</p>
+                      <p className="font-mono text-[10px] text-rose-400 break-all">{chunk.keys.map(displayKey).join(', ')}</p>
+                    </div>
+                  ))}
+                  {cancelled.length > 0 && <p className="text-slate-400">{cancelled.reduce((count, chunk) => count + chunk.keys.length, 0)} keys were cancelled</p>}
+                </div>
+              )}
+            </div>
+          );
+        })()}
+
         {loading && (
           <div className="absolute inset-0 bg-white/75 backdrop-blur-3xl z-[200] flex items-center justify-center animate-in fade-in duration-700">
             <div className="flex flex-col items-center gap-10 bg-white p-20 lg:p-28 rounded-[4.5rem] lg:rounded-[6rem] shadow-[0_128px_256px_-64px_rgba(0,0,0,0.25)] border border-slate-50 relative overflow-hidden group">
@@ -0,0 +1,118 @@
+import { BatchChunk } from "./types";
+
+export interface BatchOptions {
+  // requests in flight at once
+  concurrency: number;
+  // further attempts after a retryable failure, and times keys an answer left out are sent again
+  retries: number;
+  signal: AbortSignal;
+  // called whenever a chunk changes status, with a copy of every chunk
+  onProgress?: (chunks: BatchChunk[]) => void;
+  // delay before the first retry, doubled for every one after it
+  backoffMs?: number;
+}
+
+const MAX_BACKOFF_MS = 30000;
+
+// Rate limits, timeouts, server errors and answers that were not the JSON asked for are worth another try
+export function isRetryable(err: any) {
+  if (err?.retryable) return true;
+  const status = Number(err?.status);
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export function isAbort(err: any) {
+  return err?.name === 'AbortError';
+}
+
+function abortError() {
+  return Object.assign(new Error('Cancelled'), { name: 'AbortError' });
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `work` for every chunk, `concurrency` at a time, retrying retryable failures with exponential backoff.
+ * Keys a chunk's answer leaves out are queued again as a chunk of their own, and fail once they were left out
+ * too often. A failed chunk does not stop the others; once the signal aborts, queued chunks are cancelled and
+ * running ones are asked to stop through the signal. Resolves with the final status of every chunk.
+ */
+export async function runBatch<T>(chunks: BatchChunk[], work: (chunk: BatchChunk, signal: AbortSignal) => Promise<Record<string, T>>, onResult: (chunk: BatchChunk, result: Record<string, T>) => void, options: BatchOptions) {
+  const { concurrency, retries, signal, onProgress, backoffMs = 1000 } = options;
+  const state = chunks.map(chunk => ({ ...chunk }));
+  const report = () => onProgress?.(state.map(chunk => ({ ...chunk })));
+  let next = 0;
+
+  const runChunk = async (chunk: BatchChunk) => {
+    while (true) {
+      if (signal.aborted) {
+        chunk.status = 'cancelled';
+        return;
+      }
+      chunk.status = 'running';
+      chunk.attempts++;
+      report();
+      try {
+        const result = await work(chunk, signal);
+        onResult(chunk, result);
+        chunk.status = 'done';
+        chunk.error = undefined;
+        const missing = chunk.keys.filter(key => !(key in result));
+        if (missing.length > 0) {
+          const requeued = (chunk.requeued || 0) + 1;
+          state.push(requeued > retries
+            ? { locale: chunk.locale, keys: missing, status: 'failed', attempts: 0, requeued, error: 'The model left these keys out of its answers' }
+            : { locale: chunk.locale, keys: missing, status: 'queued', attempts: 0, requeued });
+        }
+        return;
+      } catch (err: any) {
+        chunk.error = err?.message || String(err);
+        if (signal.aborted || isAbort(err)) {
+          chunk.status = 'cancelled';
+          return;
+        }
+        if (!isRetryable(err) || chunk.attempts > retries) {
+          chunk.status = 'failed';
+          return;
+        }
+        chunk.status = 'retrying';
+        report();
+        const delay = Math.min(MAX_BACKOFF_MS, backoffMs * 2 ** (chunk.attempts - 1)) * (0.75 + Math.random() / 2);
+        try {
+          await wait(delay, signal);
+        } catch {
+          chunk.status = 'cancelled';
+          return;
+        }
+      }
+    }
+  };
+
+  const lane = async () => {
+    // chunks queued while a lane is busy are picked up by that lane once it is done
+    while (next < state.length) {
+      const chunk = state[next++];
+      if (chunk.status !== 'queued') continue;
+      await runChunk(chunk);
+      report();
+    }
+  };
+
+  report();
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, state.length)) }, lane));
+  return state;
+}
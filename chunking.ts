@@ -0,0 +1,165 @@
+import { TokenBudget, TranslationRow } from "./types";
+
+// Scripts a tokenizer spends about one token per character on
+const WIDE = /[\u0E00-\u0E7F\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]/g;
+const WIDE_LOCALES = ['zh', 'ja', 'ko', 'th'];
+
+// Share of the model's limits a chunk may fill; estimates are rough and models stop short of their maximum
+const BUDGET_SHARE = 0.6;
+
+const PIECE = '#part';
+
+// Rough token count: about four characters per token, one per character for CJK, Hangul and Thai
+export function estimateTokens(text: string) {
+  const wide = text.match(WIDE)?.length || 0;
+  return Math.ceil((text.length - wide) / 4) + wide;
+}
+
+// Translations run longer than their source, and far more tokens in wide scripts
+function outputTokens(row: TranslationRow, locale: string) {
+  const factor = WIDE_LOCALES.includes(locale.split(/[-_]/)[0].toLowerCase()) ? 2 : 1.5;
+  return Math.ceil(estimateTokens(row.sourceValue) * factor) + estimateTokens(row.key) + 8;
+}
+
+// The key, value, namespace and notes of an input, plus room for its neighboring strings
+function inputTokens(row: TranslationRow) {
+  const notes = [row.meta?.context || '', ...(row.meta?.comments || [])].join(' ');
+  return estimateTokens(row.key) * 2 + estimateTokens(row.sourceValue) + estimateTokens(notes) + 120;
+}
+
+// Key of the row a piece of a split string belongs to; other keys are returned as they are
+export function splitKeyOf(key: string) {
+  const index = key.lastIndexOf(PIECE);
+  return index > 0 && /^\d+$/.test(key.substring(index + PIECE.length)) ? key.substring(0, index) : key;
+}
+
+// Positions outside ICU arguments and markup tags, where a text can be cut without breaking either
+function safePositions(text: string) {
+  const safe: boolean[] = [];
+  let depth = 0;
+  let inTag = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '{') depth++;
+    else if (char === '}') depth = Math.max(0, depth - 1);
+    else if (char === '<' && /[a-zA-Z/]/.test(text[i + 1] || '')) inTag = true;
+    else if (char === '>') inTag = false;
+    safe.push(depth === 0 && !inTag);
+  }
+  return safe;
+}
+
+// Paragraph breaks first, then line breaks, then sentence ends
+const BREAKS = [/\n\s*\n/g, /\n/g, /(?<=[.!?。！？])\s+/g];
+
+/**
+ * Cuts a text into pieces of at most `maxTokens`, each followed by the separator it was cut at, so that
+ * joining every piece and separator gives the text back. A piece that cannot be cut safely is kept whole.
+ */
+export function splitText(text: string, maxTokens: number, level = 0): { text: string; separator: string }[] {
+  if (estimateTokens(text) <= maxTokens || level >= BREAKS.length) return [{ text, separator: '' }];
+  const safe = safePositions(text);
+  const segments: { text: string; separator: string }[] = [];
+  let last = 0;
+  for (const match of text.matchAll(BREAKS[level])) {
+    if (!safe[match.index!] || match.index === 0) continue;
+    segments.push({ text: text.substring(last, match.index), separator: match[0] });
+    last = match.index! + match[0].length;
+  }
+  segments.push({ text: text.substring(last), separator: '' });
+
+  const pieces: { text: string; separator: string }[] = [];
+  segments.forEach(segment => {
+    const current = pieces[pieces.length - 1];
+    if (current && estimateTokens(current.text + current.separator + segment.text) <= maxTokens) {
+      current.text += current.separator + segment.text;
+      current.separator = segment.separator;
+    } else {
+      pieces.push({ ...segment });
+    }
+  });
+  return pieces.flatMap(piece => {
+    const parts = splitText(piece.text, maxTokens, level + 1);
+    parts[parts.length - 1].separator = piece.separator;
+    return parts;
+  });
+}
+
+export interface ChunkPlan {
+  // keys sent together, in order; strings too long for one request are sent as pieces with their own keys
+  chunks: string[][];
+  // the row to put in the prompt for every key of `chunks`
+  rows: Map<string, TranslationRow>;
+  // the piece keys of each split row, with the separator that follows each piece
+  splits: Map<string, { keys: string[]; separators: string[] }>;
+}
+
+/**
+ * Packs rows into chunks that fit the model's input and output budget, taking the prompt's fixed `overhead`
+ * into account; `maxRows` caps how many strings share a request.
+ */
+export function planChunks(rows: TranslationRow[], locale: string, budget: TokenBudget, overhead: number, maxRows: number): ChunkPlan {
+  const inputLimit = Math.max(256, budget.input * BUDGET_SHARE - overhead);
+  const outputLimit = Math.max(128, budget.output * BUDGET_SHARE);
+  const plan: ChunkPlan = { chunks: [], rows: new Map(), splits: new Map() };
+
+  const inputs: TranslationRow[] = rows.flatMap(row => {
+    if (outputTokens(row, locale) <= outputLimit && inputTokens(row) <= inputLimit) return [row];
+    // leave room for the key and the notes that come with every piece
+    const room = Math.min((outputLimit - estimateTokens(row.key) - 8) / 2, inputLimit - inputTokens({ ...row, sourceValue: '' }));
+    const pieces = splitText(row.sourceValue, Math.max(32, Math.floor(room)));
+    if (pieces.length === 1) return [row];
+    const keys = pieces.map((_, i) => `${row.key}${PIECE}${i + 1}`);
+    plan.splits.set(row.key, { keys, separators: pieces.map(piece => piece.separator) });
+    return pieces.map((piece, i) => ({
+      ...row,
+      key: keys[i],
+      sourceValue: piece.text,
+      pastSourceValue: piece.text,
+      meta: { ...row.meta, comments: [...(row.meta?.comments || []), `Part ${i + 1} of ${pieces.length} of one longer text; translate only this part.`] },
+    }));
+  });
+
+  let chunk: string[] = [];
+  let input = 0;
+  let output = 0;
+  inputs.forEach(row => {
+    const rowInput = inputTokens(row);
+    const rowOutput = outputTokens(row, locale);
+    if (chunk.length > 0 && (chunk.length >= maxRows || input + rowInput > inputLimit || output + rowOutput > outputLimit)) {
+      plan.chunks.push(chunk);
+      chunk = [];
+      input = 0;
+      output = 0;
+    }
+    chunk.push(row.key);
+    plan.rows.set(row.key, row);
+    input += rowInput;
+    output += rowOutput;
+  });
+  if (chunk.length > 0) plan.chunks.push(chunk);
+  return plan;
+}
+
+// Gathers answers as chunks come back and returns the strings each answer completes; a split string is
+// complete, joined back together, once every one of its pieces has been answered
+export function answerCollector(plan: ChunkPlan) {
+  const received: Record<string, string> = {};
+  const pieceOf = new Map([...plan.splits].flatMap(([key, split]) => split.keys.map(piece => [piece, key] as const)));
+  return (answers: Record<string, string>) => {
+    const completed: Record<string, string> = {};
+    Object.entries(answers).forEach(([key, answer]) => {
+      const original = pieceOf.get(key);
+      if (!original) {
+        completed[key] = answer;
+        return;
+      }
+      received[key] = answer;
+      const split = plan.splits.get(original)!;
+      if (split.keys.every(piece => piece in received)) {
+        completed[original] = split.keys.map((piece, i) => received[piece] + split.separators[i]).join('');
+      }
+    });
+    return completed;
+  };
+}
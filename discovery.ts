@@ -0,0 +1,91 @@
+import { DiscoveredGroup, LocaleTarget } from "./types";
+
+// Layouts tried when no pattern is given
+export const discoveryPresets = [
+  '**/locales/{lang}.json',
+  '**/i18n/{lang}.json',
+  '**/i18n/{lang}/*.json',
+  '**/locales/{lang}/*.json',
+  '**/locales/{lang}.yml',
+  '**/res/values-{lang}/strings.xml',
+  '**/{lang}.lproj/*.strings',
+  '**/*.xcstrings',
+  '**/{lang}/LC_MESSAGES/*.po',
+  '**/po/{lang}.po',
+];
+
+const LANG = '[A-Za-z]{2,3}(?:[-_][A-Za-z0-9]{2,8})*';
+
+// `{lang}` matches a locale code, `*` a single path segment and `**/` any number of directories
+export function patternToRegExp(pattern: string) {
+  let source = '';
+  let captured = false;
+  for (const token of pattern.split(/(\{lang\}|\*\*\/|\*\*|\*)/)) {
+    if (token === '{lang}') {
+      source += captured ? '\\1' : `(${LANG})`;
+      captured = true;
+    } else if (token === '**/') source += '(?:[^/]+/)*';
+    else if (token === '**') source += '.*';
+    else if (token === '*') source += '[^/]*';
+    else source += token.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, 'd');
+}
+
+// Rules out directory names that merely look like a code, e.g. `app` or `lib`
+function isKnownLanguage(code: string) {
+  const language = code.split(/[-_]/)[0].toLowerCase();
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) !== language;
+  } catch {
+    return false;
+  }
+}
+
+// Android qualifies regions as `pt-rBR`
+const normalizeLocale = (code: string) => code.replace(/-r([A-Z]{2})$/, '-$1');
+
+/**
+ * Groups the repository paths that match `pattern` by the file they are a translation of,
+ * and suggests the `sourceLocale` file of each group as its source and the others as targets.
+ * A group without a `sourceLocale` file falls back to the same path without the locale (`values/strings.xml`).
+ */
+export function discoverLocaleFiles(paths: string[], pattern: string, sourceLocale: string): DiscoveredGroup[] {
+  const regExp = patternToRegExp(pattern);
+  const known = new Set(paths);
+  const groups = new Map<string, { path: string; locale: string }[]>();
+
+  for (const path of paths) {
+    const match = regExp.exec(path);
+    if (!match) continue;
+    const [start, end] = match.indices?.[1] ?? [path.length, path.length];
+    if (match[1] !== undefined && !isKnownLanguage(match[1])) continue;
+    const template = match[1] !== undefined ? path.substring(0, start) + '{lang}' + path.substring(end) : path;
+    const files = groups.get(template) || [];
+    groups.set(template, files);
+    files.push({ path, locale: match[1] !== undefined ? normalizeLocale(match[1]) : '' });
+  }
+
+  const normalizedSource = sourceLocale.toLowerCase().replace('_', '-');
+  return [...groups.entries()].map(([template, files]) => {
+    // Single-file catalogs hold every locale, so the one path is both source and target
+    if (!template.includes('{lang}')) return { template, sourcePath: template, targets: [] };
+    const source = files.find(f => f.locale.toLowerCase().replace('_', '-') === normalizedSource);
+    const fallback = template.replace(/[-_.]\{lang\}/, '');
+    const targets: LocaleTarget[] = files.filter(f => f !== source && f.locale).map(({ locale, path }) => ({ locale, path }));
+    return {
+      template,
+      sourcePath: source?.path ?? (fallback !== template && known.has(fallback) ? fallback : undefined),
+      targets: targets.sort((a, b) => a.locale.localeCompare(b.locale)),
+    };
+  }).sort((a, b) => b.targets.length - a.targets.length);
+}
+
+// Runs every preset and keeps each group once
+export function discoverWithPresets(paths: string[], sourceLocale: string): DiscoveredGroup[] {
+  const seen = new Set<string>();
+  return discoveryPresets
+    .flatMap(pattern => discoverLocaleFiles(paths, pattern, sourceLocale))
+    .filter(group => !seen.has(group.template) && !!seen.add(group.template) && (group.targets.length > 0 || group.template.endsWith('.xcstrings')))
+    .sort((a, b) => b.targets.length - a.targets.length);
+}
@@ -0,0 +1,341 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { ExchangeFile, ExchangeFormat, ExchangeRow, ExchangeStatus, ImportChange, MemoryEntry, TranslationRow } from "./types";
+import { displayKey, getLocaleValue, isModified } from "./utils";
+
+export const exchangeFormats: Record<ExchangeFormat, { label: string; extension: string; mimeType: string }> = {
+  xliff12: { label: 'XLIFF 1.2', extension: 'xlf', mimeType: 'application/x-xliff+xml' },
+  xliff20: { label: 'XLIFF 2.0', extension: 'xlf', mimeType: 'application/x-xliff+xml' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  xlsx: { label: 'XLSX', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+};
+
+const COLUMNS = ['key', 'source', 'target', 'ai_suggestion', 'status', 'comment'] as const;
+
+// XML cannot carry control characters such as the gettext context separator, and attributes lose their
+// line breaks, so keys spell them out as \u escapes
+const encodeKey = (key: string) => key.replace(/[\u0000-\u001F]/g, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
+const decodeKey = (key: string) => key.replace(/\\u(00[01][0-9a-fA-F])/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+function escapeXml(text: string) {
+  return text.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;').replaceAll('"', '&quot;');
+}
+
+export function rowStatus(row: TranslationRow, locale: string): ExchangeStatus {
+  const value = getLocaleValue(row, locale);
+  if (value.targetValue === '') return 'untranslated';
+  if (row.sourceValue !== row.pastSourceValue) return 'unconfirmed';
+  return isModified(row, locale) ? 'modified' : 'translated';
+}
+
+export function exchangeRows(rows: TranslationRow[], locale: string): ExchangeRow[] {
+  return rows.map(r => {
+    const value = getLocaleValue(r, locale);
+    return {
+      key: r.key,
+      source: r.sourceValue,
+      target: value.targetValue,
+      suggestion: value.aiSuggestion || undefined,
+      status: rowStatus(r, locale),
+      comment: [...(r.meta?.comments || []), ...(value.comments || [])].join('\n') || undefined,
+    };
+  });
+}
+
+function xliff12(file: ExchangeFile, original: string) {
+  const states: Record<ExchangeStatus, string> = { untranslated: 'new', unconfirmed: 'needs-review-translation', modified: 'translated', translated: 'translated' };
+  const units = file.rows.map(row => [
+    `      <trans-unit id="${escapeXml(encodeKey(row.key))}" resname="${escapeXml(encodeKey(row.key))}" xml:space="preserve">`,
+    `        <source>${escapeXml(row.source)}</source>`,
+    `        <target state="${states[row.status || 'translated']}">${escapeXml(row.target)}</target>`,
+    ...(row.comment ? [`        <note>${escapeXml(row.comment)}</note>`] : []),
+    ...(row.suggestion ? [`        <alt-trans origin="ai"><target>${escapeXml(row.suggestion)}</target></alt-trans>`] : []),
+    `      </trans-unit>`,
+  ].join('\n'));
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">`,
+    `  <file original="${escapeXml(original)}" source-language="${escapeXml(file.sourceLocale || '')}" target-language="${escapeXml(file.targetLocale || '')}" datatype="plaintext">`,
+    `    <body>`,
+    ...units,
+    `    </body>`,
+    `  </file>`,
+    `</xliff>`,
+    ``,
+  ].join('\n');
+}
+
+function xliff20(file: ExchangeFile, original: string) {
+  const states: Record<ExchangeStatus, string> = { untranslated: 'initial', unconfirmed: 'initial', modified: 'translated', translated: 'translated' };
+  // Unit ids must be NMTOKENs, so the key goes into `name`
+  const units = file.rows.map((row, i) => {
+    const notes = [
+      ...(row.comment ? [`<note category="comment">${escapeXml(row.comment)}</note>`] : []),
+      ...(row.suggestion ? [`<note category="ai-suggestion">${escapeXml(row.suggestion)}</note>`] : []),
+    ];
+    return [
+      `    <unit id="u${i + 1}" name="${escapeXml(encodeKey(row.key))}">`,
+      ...(notes.length > 0 ? [`      <notes>`, ...notes.map(note => `        ${note}`), `      </notes>`] : []),
+      `      <segment state="${states[row.status || 'translated']}">`,
+      `        <source xml:space="preserve">${escapeXml(row.source)}</source>`,
+      `        <target xml:space="preserve">${escapeXml(row.target)}</target>`,
+      `      </segment>`,
+      `    </unit>`,
+    ].join('\n');
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${escapeXml(file.sourceLocale || '')}" trgLang="${escapeXml(file.targetLocale || '')}">`,
+    `  <file id="f1" original="${escapeXml(original)}">`,
+    ...units,
+    `  </file>`,
+    `</xliff>`,
+    ``,
+  ].join('\n');
+}
+
+function tableRows(file: ExchangeFile) {
+  return [
+    [...COLUMNS] as string[],
+    ...file.rows.map(row => [encodeKey(row.key), row.source, row.target, row.suggestion || '', row.status || '', row.comment || '']),
+  ];
+}
+
+function toCsv(table: string[][]) {
+  const cell = (text: string) => /[",\r\n]/.test(text) || /^\s|\s$/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+  // The BOM makes Excel open the file as UTF-8
+  return '\uFEFF' + table.map(row => row.map(cell).join(',')).join('\r\n') + '\r\n';
+}
+
+function parseCsv(text: string): string[][] {
+  const table: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const delimiter = /^[^\n]*;/.test(text) && !/^[^\n]*,/.test(text) ? ';' : ',';
+  for (let i = text.charCodeAt(0) === 0xFEFF ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else cell += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      table.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) table.push([...row, cell]);
+  return table;
+}
+
+function columnName(index: number) {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  return name;
+}
+
+function columnIndex(ref: string) {
+  return [...ref.replace(/\d+$/, '')].reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1;
+}
+
+// A single-sheet workbook with inline strings; enough for Excel, LibreOffice and Google Sheets
+function toXlsx(table: string[][]) {
+  const xml = (body: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${body}`;
+  const sheetRows = table.map((row, r) => `<row r="${r + 1}">${row.map((text, c) =>
+    `<c r="${columnName(c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`).join('')}</row>`);
+  return zipSync({
+    '[Content_Types].xml': strToU8(xml(`<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`)),
+    '_rels/.rels': strToU8(xml(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`)),
+    'xl/workbook.xml': strToU8(xml(`<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Translations" sheetId="1" r:id="rId1"/></sheets></workbook>`)),
+    'xl/_rels/workbook.xml.rels': strToU8(xml(`<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`)),
+    'xl/worksheets/sheet1.xml': strToU8(xml(`<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`)),
+  });
+}
+
+function parseXml(text: string) {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('File is not well-formed XML');
+  return doc;
+}
+
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+const childElements = (parent: Element, name: string) => Array.from(parent.children).filter(child => child.localName === name);
+
+// Reads the first worksheet, resolving shared strings; every cell comes back as text
+function parseXlsx(data: Uint8Array): string[][] {
+  const files = unzipSync(data);
+  const sheetPath = Object.keys(files).filter(path => /^xl\/worksheets\/[^/]+\.xml$/.test(path)).sort()[0];
+  if (!sheetPath) throw new Error('Workbook has no worksheet');
+  const sharedStrings = files['xl/sharedStrings.xml']
+    ? elements(parseXml(strFromU8(files['xl/sharedStrings.xml'])), 'si').map(si => elements(si, 't').map(t => t.textContent || '').join(''))
+    : [];
+
+  const table: string[][] = [];
+  elements(parseXml(strFromU8(files[sheetPath])), 'row').forEach((rowElement, r) => {
+    const rowIndex = Number(rowElement.getAttribute('r') || r + 1) - 1;
+    const row: string[] = table[rowIndex] = [];
+    childElements(rowElement, 'c').forEach((cell, c) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : c;
+      const value = childElements(cell, 'v')[0]?.textContent ?? '';
+      switch (cell.getAttribute('t')) {
+        case 's': row[index] = sharedStrings[Number(value)] ?? ''; break;
+        case 'inlineStr': row[index] = elements(cell, 't').map(t => t.textContent || '').join(''); break;
+        case 'b': row[index] = value === '1' ? 'TRUE' : 'FALSE'; break;
+        default: row[index] = value;
+      }
+    });
+  });
+  return Array.from(table, row => Array.from(row || [], cell => cell ?? ''));
+}
+
+function fromTable(table: string[][]): ExchangeFile {
+  const header = (table[0] || []).map(name => name.trim().toLowerCase().replace(/\s+/g, '_'));
+  const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+  const key = column('key', 'id');
+  const target = column('target', 'translation');
+  if (key < 0 || target < 0) throw new Error('Expected "key" and "target" columns in the first row');
+  const source = column('source');
+  return {
+    rows: table.slice(1).filter(row => row[key]).map(row => ({
+      key: decodeKey(row[key]),
+      source: source >= 0 ? row[source] ?? '' : '',
+      target: row[target] ?? '',
+    })),
+  };
+}
+
+function fromXliff(text: string): ExchangeFile {
+  const doc = parseXml(text);
+  const root = doc.documentElement;
+  if (root.localName !== 'xliff') throw new Error('Not an XLIFF file');
+  if (root.getAttribute('version')?.startsWith('2')) {
+    return {
+      sourceLocale: root.getAttribute('srcLang') || undefined,
+      targetLocale: root.getAttribute('trgLang') || undefined,
+      rows: elements(doc, 'unit').map(unit => {
+        const segments = elements(unit, 'segment');
+        const join = (name: string) => segments.map(segment => childElements(segment, name)[0]?.textContent || '').join('');
+        return { key: decodeKey(unit.getAttribute('name') || unit.getAttribute('id') || ''), source: join('source'), target: join('target') };
+      }),
+    };
+  }
+  const file = elements(doc, 'file')[0];
+  return {
+    sourceLocale: file?.getAttribute('source-language') || undefined,
+    targetLocale: file?.getAttribute('target-language') || undefined,
+    rows: elements(doc, 'trans-unit').map(unit => ({
+      key: decodeKey(unit.getAttribute('resname') || unit.getAttribute('id') || ''),
+      source: childElements(unit, 'source')[0]?.textContent || '',
+      target: childElements(unit, 'target')[0]?.textContent || '',
+    })),
+  };
+}
+
+/**
+ * Builds the file handed to an outside translator. `original` names the target file the rows belong to.
+ */
+export function exportExchange(file: ExchangeFile, format: ExchangeFormat, original: string): string | Uint8Array {
+  switch (format) {
+    case 'xliff12': return xliff12(file, original);
+    case 'xliff20': return xliff20(file, original);
+    case 'csv': return toCsv(tableRows(file));
+    case 'xlsx': return toXlsx(tableRows(file));
+  }
+}
+
+// The format is picked from the file name; CSV and spreadsheets need `key` and `target` header columns
+export function parseExchange(data: Uint8Array, fileName: string): ExchangeFile {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith('.xlsx')) return fromTable(parseXlsx(data));
+  const text = new TextDecoder().decode(data);
+  if (lowerName.endsWith('.csv')) return fromTable(parseCsv(text));
+  return fromXliff(text);
+}
+
+// Rows whose target would change; empty targets count as not translated yet and never clear a value
+export function previewImport(rows: TranslationRow[], file: ExchangeFile, locale: string): { changes: ImportChange[]; unknownKeys: string[] } {
+  const byKey = new Map(rows.map(r => [r.key, r]));
+  const changes: ImportChange[] = [];
+  const unknownKeys: string[] = [];
+  file.rows.forEach(imported => {
+    const row = byKey.get(imported.key);
+    if (!row) {
+      unknownKeys.push(displayKey(imported.key));
+      return;
+    }
+    const before = getLocaleValue(row, locale).targetValue;
+    if (imported.target === '' || imported.target === before) return;
+    changes.push({ key: row.key, before, after: imported.target, sourceChanged: imported.source !== '' && imported.source !== row.sourceValue });
+  });
+  return { changes, unknownKeys };
+}
+
+// TMX dates look like 20240131T235959Z
+const tmxDate = (time: number) => new Date(time).toISOString().replace(/[-:]|\.\d+/g, '');
+const parseTmxDate = (date: string | null) => {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(date || '');
+  return match ? Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]) : Date.now();
+};
+
+// Translation memory as TMX 1.4, one unit per remembered pair
+export function exportTmx(entries: MemoryEntry[]) {
+  const units = entries.map(entry => [
+    `    <tu srclang="${escapeXml(entry.sourceLocale)}" changedate="${tmxDate(entry.updated)}">`,
+    ...(entry.origin ? [`      <prop type="x-project">${escapeXml(entry.origin)}</prop>`] : []),
+    `      <tuv xml:lang="${escapeXml(entry.sourceLocale)}"><seg>${escapeXml(entry.source)}</seg></tuv>`,
+    `      <tuv xml:lang="${escapeXml(entry.targetLocale)}"><seg>${escapeXml(entry.target)}</seg></tuv>`,
+    `    </tu>`,
+  ].join('\n'));
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<tmx version="1.4">`,
+    `  <header creationtool="The Multiverse" creationtoolversion="1" segtype="sentence" o-tmf="multiverse" adminlang="en" srclang="*all*" datatype="plaintext" creationdate="${tmxDate(Date.now())}"/>`,
+    `  <body>`,
+    ...units,
+    `  </body>`,
+    `</tmx>`,
+    ``,
+  ].join('\n');
+}
+
+/**
+ * Reads the pairs of a TMX file: each unit's source language variant paired with every other variant.
+ * Inline markup in segments is kept as its text.
+ */
+export function parseTmx(text: string): MemoryEntry[] {
+  const doc = parseXml(text);
+  const header = elements(doc, 'header')[0];
+  const headerSource = header?.getAttribute('srclang');
+  const entries: MemoryEntry[] = [];
+  elements(doc, 'tu').forEach(unit => {
+    const variants = childElements(unit, 'tuv').map(tuv => ({
+      // TMX 1.1 used `lang` instead of `xml:lang`
+      locale: tuv.getAttributeNS('http://www.w3.org/XML/1998/namespace', 'lang') || tuv.getAttribute('xml:lang') || tuv.getAttribute('lang') || '',
+      text: childElements(tuv, 'seg')[0]?.textContent ?? '',
+    }));
+    const sourceLocale = unit.getAttribute('srclang') || (headerSource && headerSource !== '*all*' ? headerSource : variants[0]?.locale);
+    const source = variants.find(variant => variant.locale.toLowerCase() === sourceLocale?.toLowerCase());
+    if (!source) return;
+    const origin = childElements(unit, 'prop').find(prop => prop.getAttribute('type') === 'x-project')?.textContent || undefined;
+    const updated = parseTmxDate(unit.getAttribute('changedate') || unit.getAttribute('creationdate'));
+    variants.filter(variant => variant !== source).forEach(variant => entries.push({
+      source: source.text,
+      target: variant.text,
+      sourceLocale: source.locale,
+      targetLocale: variant.locale,
+      origin,
+      updated,
+    }));
+  });
+  return entries;
+}
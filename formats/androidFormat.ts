@@ -0,0 +1,305 @@
+import { EntryMeta, LocaleFormat, ValueType } from '../types';
+import { flattenObject, parseKeyPath } from '../utils';
+
+type ResourceKind = 'string' | 'string-array' | 'plurals';
+
+interface AndroidItem {
+  quantity?: string;
+  start: number;
+  end: number;
+  // offsets of the text between the tags; undefined for self-closing items
+  contentStart?: number;
+  contentEnd?: number;
+}
+
+interface AndroidResource {
+  kind: ResourceKind;
+  name: string;
+  translatable: boolean;
+  comment?: string;
+  start: number;
+  end: number;
+  contentStart?: number;
+  contentEnd?: number;
+  items: AndroidItem[];
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const RESOURCE_TAG = /<(string-array|plurals|string)(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/\1\s*>)/g;
+const ITEM_TAG = /<item(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/item\s*>)/g;
+// Inline markup Android styles text with, such as <b>, <xliff:g id="count"> or <annotation>, is kept as-is in values;
+// anything else that looks like a tag (e.g. <Enter>) is text and gets escaped
+const MARKUP_TAG = /<\/?(?:a|annotation|b|big|br|em|font|i|li|ol|p|s|small|span|strike|strong|sub|sup|tt|u|ul|xliff:g)(?=[\s/>])(?:\s[^<>]*)?\/?>/gi;
+
+function parseAttributes(text: string) {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = match[2] ?? match[3];
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string) {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.substring(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.substring(1), 10));
+    return named[name] ?? entity;
+  });
+}
+
+// Reads resource text the way aapt does: CDATA is literal, a fully quoted string keeps its apostrophes, backslash escapes are resolved
+function decodeAndroid(xml: string) {
+  let text = xml.split(/(<!\[CDATA\[[\s\S]*?\]\]>)/).map(part => part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part)).join('');
+  const quoted = /^\s*"([\s\S]*)"\s*$/.exec(text);
+  if (quoted && !/(^|[^\\])(\\\\)*"/.test(quoted[1])) text = quoted[1];
+  const escapes: Record<string, string> = { n: '\n', t: '\t' };
+  return text.replace(/\\(u[0-9a-fA-F]{4}|[\s\S])/g, (_, escaped: string) =>
+    escaped.length === 5 ? String.fromCharCode(parseInt(escaped.substring(1), 16)) : escapes[escaped] ?? escaped);
+}
+
+function encodeAndroid(value: string) {
+  const escapeText = (text: string) => text
+    .replaceAll('\\', '\\\\')
+    .replaceAll('\n', '\\n')
+    .replaceAll('\t', '\\t')
+    .replaceAll("'", "\\'")
+    .replaceAll('"', '\\"')
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;');
+  let result = '';
+  let last = 0;
+  for (const match of value.matchAll(MARKUP_TAG)) {
+    result += escapeText(value.substring(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+  result += escapeText(value.substring(last));
+  // A leading @ or ? would be read as a resource or theme reference
+  return /^[@?]/.test(result) ? '\\' + result : result;
+}
+
+// Comments are blanked out with spaces so offsets still line up with the original text
+function maskComments(text: string) {
+  return text.replace(/<!--[\s\S]*?-->/g, comment => ' '.repeat(comment.length));
+}
+
+function parseResources(text: string): AndroidResource[] {
+  const masked = maskComments(text);
+  const resources: AndroidResource[] = [];
+  for (const match of masked.matchAll(RESOURCE_TAG)) {
+    const attributes = parseAttributes(match[2]);
+    if (!attributes.name) continue;
+    const start = match.index!;
+    const end = start + match[0].length;
+    const contentStart = match[3] !== undefined ? end - match[3].length - /<\/[\w-]+\s*>$/.exec(match[0])![0].length : undefined;
+    const contentEnd = contentStart !== undefined ? contentStart + match[3].length : undefined;
+
+    const items: AndroidItem[] = [];
+    if (match[1] !== 'string' && contentStart !== undefined) {
+      for (const item of match[3].matchAll(ITEM_TAG)) {
+        const itemStart = contentStart + item.index!;
+        const itemEnd = itemStart + item[0].length;
+        const itemContentStart = item[2] !== undefined ? itemEnd - item[2].length - /<\/item\s*>$/.exec(item[0])![0].length : undefined;
+        items.push({
+          quantity: parseAttributes(item[1]).quantity,
+          start: itemStart,
+          end: itemEnd,
+          contentStart: itemContentStart,
+          contentEnd: itemContentStart !== undefined ? itemContentStart + item[2].length : undefined,
+        });
+      }
+    }
+
+    // A comment directly above an entry, with no blank line in between, is its description for translators
+    const commentEnd = text.lastIndexOf('-->', start);
+    const commentStart = text.lastIndexOf('<!--', commentEnd);
+    const attached = commentEnd >= 0 && commentStart >= 0 && /^\s*$/.test(text.substring(commentEnd + 3, start)) && !/\n[ \t]*\r?\n/.test(text.substring(commentEnd + 3, start));
+    resources.push({
+      kind: match[1] as ResourceKind,
+      name: attributes.name,
+      translatable: attributes.translatable !== 'false',
+      comment: attached ? text.substring(commentStart + 4, commentEnd).trim() : undefined,
+      start,
+      end,
+      contentStart,
+      contentEnd,
+      items,
+    });
+  }
+  return resources;
+}
+
+function contentOf(text: string, node: { contentStart?: number; contentEnd?: number }) {
+  return node.contentStart !== undefined ? decodeAndroid(text.substring(node.contentStart, node.contentEnd)) : '';
+}
+
+function itemSegment(resource: AndroidResource, item: AndroidItem, index: number) {
+  return resource.kind === 'plurals' ? item.quantity : index;
+}
+
+function flatKey(name: string, quantity: string) {
+  return Object.keys(flattenObject({ [name]: { [quantity]: '' } }))[0];
+}
+
+// Splits a flat key into resource name and item segment. Names may contain dots (`'settings.title'`), so a quoted
+// name is taken whole instead of split like a path
+function splitKey(key: string): [string, string | number | undefined] {
+  const quoted = /^'([^']*)'(?:\.(.+))?$/.exec(key);
+  if (!quoted) {
+    const [name, segment] = parseKeyPath(key);
+    return [String(name), segment];
+  }
+  return [quoted[1], quoted[2] !== undefined ? parseKeyPath(quoted[2])[0] : undefined];
+}
+
+function resourceValues(text: string, resource: AndroidResource) {
+  if (resource.kind === 'string') return { [resource.name]: contentOf(text, resource) };
+  const items: Record<string, string> = {};
+  resource.items.forEach((item, index) => {
+    const segment = itemSegment(resource, item, index);
+    if (segment !== undefined) items[segment] = contentOf(text, item);
+  });
+  return { [resource.name]: resource.kind === 'plurals' ? items : Object.values(items) };
+}
+
+function lineIndent(text: string, offset: number) {
+  return /[ \t]*$/.exec(text.substring(text.lastIndexOf('\n', offset - 1) + 1, offset))![0];
+}
+
+// Replaces the text of an element, turning a self-closing tag into an open/close pair when needed
+function contentEdit(text: string, node: { start: number; end: number; contentStart?: number; contentEnd?: number }, tag: string, value: string): Edit {
+  if (node.contentStart !== undefined) return { start: node.contentStart, end: node.contentEnd!, text: encodeAndroid(value) };
+  const opening = text.substring(node.start, node.end).replace(/\s*\/>$/, '>');
+  return { start: node.start, end: node.end, text: `${opening}${encodeAndroid(value)}</${tag}>` };
+}
+
+function resourceText(name: string, entries: Map<string | number | undefined, string>, indent: string, unit: string, eol: string) {
+  const scalar = entries.get(undefined);
+  if (scalar !== undefined) return `<string name="${name}">${encodeAndroid(scalar)}</string>`;
+  const plurals = [...entries.keys()].some(segment => typeof segment === 'string');
+  const tag = plurals ? 'plurals' : 'string-array';
+  const items = [...entries.entries()]
+    .sort((a, b) => plurals ? 0 : Number(a[0]) - Number(b[0]))
+    .map(([segment, value]) => `${indent}${unit}<item${plurals ? ` quantity="${segment}"` : ''}>${encodeAndroid(value)}</item>`);
+  return `<${tag} name="${name}">${eol}${items.join(eol)}${eol}${indent}</${tag}>`;
+}
+
+/**
+ * Writes values into an Android string resource file.
+ * Only the text of changed entries is replaced; comments, attributes and untouched entries are kept.
+ * When `fromTemplate` is set the file is a copy of the source, so non-translatable entries and entries without a
+ * translation are dropped; untranslated items of a translated array are emptied, since removing them would shift the rest.
+ */
+function serializeAndroid(values: Record<string, ValueType>, template: string | undefined, fromTemplate: boolean) {
+  const text = template && template.trim() !== '' ? template : '<?xml version="1.0" encoding="utf-8"?>\n<resources>\n</resources>\n';
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const resources = parseResources(text);
+
+  const pending = new Map<string, Map<string | number | undefined, string>>();
+  for (const key in values) {
+    const [name, segment] = splitKey(key);
+    const entries = pending.get(name) || new Map<string | number | undefined, string>();
+    pending.set(name, entries);
+    entries.set(segment, String(values[key] ?? ''));
+  }
+
+  const edits: Edit[] = [];
+  const unit = resources.length > 0 ? lineIndent(text, resources[0].start) || '    ' : '    ';
+  // Takes an element out along with its line
+  const removal = (node: { start: number; end: number }): Edit => {
+    const lineStart = node.start - lineIndent(text, node.start).length;
+    const lineEnd = /^[ \t]*\r?\n/.exec(text.substring(node.end))?.[0].length ?? 0;
+    return { start: lineStart, end: node.end + lineEnd, text: '' };
+  };
+  for (const resource of resources) {
+    if (!resource.translatable) {
+      if (fromTemplate) edits.push(removal(resource));
+      continue;
+    }
+    const entries = pending.get(resource.name);
+    if (!entries) {
+      if (fromTemplate) edits.push(removal(resource));
+      continue;
+    }
+    pending.delete(resource.name);
+
+    if (resource.kind === 'string') {
+      const value = entries.get(undefined);
+      if (value !== undefined && value !== contentOf(text, resource)) edits.push(contentEdit(text, resource, 'string', value));
+      continue;
+    }
+
+    const existing = new Set<string | number>();
+    resource.items.forEach((item, index) => {
+      const segment = itemSegment(resource, item, index);
+      if (segment === undefined) return;
+      existing.add(segment);
+      const value = entries.get(segment);
+      if (value === undefined && fromTemplate) edits.push(resource.kind === 'plurals' ? removal(item) : contentEdit(text, item, 'item', ''));
+      else if (value !== undefined && value !== contentOf(text, item)) edits.push(contentEdit(text, item, 'item', value));
+    });
+
+    // Missing array items can only be appended; a gap would shift every later index
+    const missing = [...entries.entries()].filter(([segment]) => segment !== undefined && !existing.has(segment));
+    if (resource.kind === 'string-array') missing.sort((a, b) => Number(a[0]) - Number(b[0]));
+    let next = resource.items.length;
+    const added = missing.filter(([segment]) => resource.kind === 'plurals' || segment === next++);
+    if (added.length === 0 || resource.contentStart === undefined) continue;
+
+    const last = resource.items[resource.items.length - 1];
+    const itemIndent = last ? lineIndent(text, last.start) : lineIndent(text, resource.start) + unit;
+    const lines = added.map(([segment, value]) => `${itemIndent}<item${resource.kind === 'plurals' ? ` quantity="${segment}"` : ''}>${encodeAndroid(value)}</item>`);
+    edits.push(last
+      ? { start: last.end, end: last.end, text: eol + lines.join(eol) }
+      : { start: resource.contentStart, end: resource.contentEnd!, text: eol + lines.join(eol) + eol + lineIndent(text, resource.start) });
+  }
+
+  if (pending.size > 0) {
+    const close = maskComments(text).lastIndexOf('</resources');
+    if (close < 0) throw new Error('Android resource file has no closing </resources> tag');
+    const closeIndent = lineIndent(text, close);
+    const added = [...pending.entries()].map(([name, entries]) => unit + resourceText(name, entries, unit, unit, eol));
+    edits.push({ start: close - closeIndent.length, end: close - closeIndent.length, text: added.join(eol) + eol });
+  }
+
+  let result = text;
+  edits.sort((a, b) => b.start - a.start).forEach(edit => {
+    result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+  });
+  return result;
+}
+
+export const androidFormat: LocaleFormat = {
+  name: 'Android strings.xml',
+  extensions: ['.xml'],
+  // <string> is a plain key, <string-array> items are `'name'.0` and <plurals> items are `'name'.'one'`
+  parse: text => {
+    const data: Record<string, any> = {};
+    parseResources(text).filter(r => r.translatable).forEach(r => Object.assign(data, resourceValues(text, r)));
+    return flattenObject(data);
+  },
+  parseMeta: (text, { role = 'target' }) => {
+    const meta: Record<string, EntryMeta> = {};
+    if (role !== 'source') return meta;
+    parseResources(text).filter(r => r.translatable && r.comment).forEach(r => {
+      Object.keys(flattenObject(resourceValues(text, r))).forEach(key => {
+        meta[key] = { comments: [r.comment!] };
+      });
+    });
+    return meta;
+  },
+  // Quantities the target language needs beyond the source's (e.g. few/many) are translated from `other`
+  sourceValueFor: (key, source) => {
+    const [name, quantity] = splitKey(key);
+    return typeof quantity === 'string' ? source[flatKey(name, 'other')] : undefined;
+  },
+  serialize: (values, { original, source }) => original !== undefined && original.trim() !== ''
+    ? serializeAndroid(values, original, false)
+    : serializeAndroid(values, source, true),
+};
+
@@ -0,0 +1,237 @@
+import { EntryMeta, LocaleFormat, ValueType } from '../types';
+import { patchJson } from './jsonFormat';
+
+interface StringsEntry {
+  key: string;
+  value: string;
+  comment?: string;
+  // offsets of the quoted value token
+  valueStart: number;
+  valueEnd: number;
+  // offsets of the whole entry, from its comment if it has one to its semicolon
+  start: number;
+  end: number;
+}
+
+function unescapeStrings(text: string) {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', 0: '\0' };
+  return text.replace(/\\([uU][0-9a-fA-F]{4}|[\s\S])/g, (_, escaped: string) =>
+    escaped.length === 5 ? String.fromCharCode(parseInt(escaped.substring(1), 16)) : escapes[escaped] ?? escaped);
+}
+
+// Format specifiers such as %@ and %1$s need no escaping; only quotes, backslashes and control characters do
+function escapeStrings(text: string) {
+  return text.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n').replaceAll('\t', '\\t').replaceAll('\r', '\\r');
+}
+
+function parseStrings(text: string): StringsEntry[] {
+  const entries: StringsEntry[] = [];
+  let pos = 0;
+  let comment: string | undefined;
+  let commentStart: number | undefined;
+
+  const fail = (): never => {
+    throw new Error(`Unexpected token at position ${pos} while parsing .strings file`);
+  };
+
+  // Returns the next token, skipping whitespace and remembering the last comment seen
+  const next = (): { text: string; isString: boolean; start: number; end: number } | null => {
+    while (pos < text.length) {
+      if (/\s/.test(text[pos])) {
+        pos++;
+      } else if (text.startsWith('/*', pos)) {
+        commentStart = pos;
+        const end = text.indexOf('*/', pos + 2);
+        if (end < 0) fail();
+        comment = text.substring(pos + 2, end).trim();
+        pos = end + 2;
+      } else if (text.startsWith('//', pos)) {
+        commentStart = pos;
+        const end = text.indexOf('\n', pos);
+        comment = text.substring(pos + 2, end < 0 ? text.length : end).trim();
+        pos = end < 0 ? text.length : end;
+      } else {
+        break;
+      }
+    }
+    if (pos >= text.length) return null;
+    const start = pos;
+    if (text[pos] === '"') {
+      pos++;
+      while (pos < text.length && text[pos] !== '"') pos += text[pos] === '\\' ? 2 : 1;
+      if (pos >= text.length) fail();
+      pos++;
+      return { text: unescapeStrings(text.substring(start + 1, pos - 1)), isString: true, start, end: pos };
+    }
+    if (text[pos] === '=' || text[pos] === ';') {
+      pos++;
+      return { text: text[start], isString: false, start, end: pos };
+    }
+    const word = /^[^\s"=;]+/.exec(text.substring(pos));
+    if (!word) fail();
+    pos += word[0].length;
+    return { text: word[0], isString: true, start, end: pos };
+  };
+
+  while (true) {
+    comment = undefined;
+    commentStart = undefined;
+    const key = next();
+    if (!key) break;
+    const entryComment = comment;
+    const entryStart = commentStart ?? key.start;
+    if (!key.isString) fail();
+    const separator = next();
+    if (separator?.text === ';' && !separator.isString) continue;
+    if (separator?.text !== '=' || separator.isString) fail();
+    const value = next();
+    if (!value?.isString) fail();
+    const end = next();
+    if (end?.text !== ';' || end.isString) fail();
+    entries.push({ key: key.text, value: value!.text, comment: entryComment, valueStart: value!.start, valueEnd: value!.end, start: entryStart, end: end!.end });
+  }
+  return entries;
+}
+
+/**
+ * Writes values into a `.strings` file, replacing only the changed value tokens.
+ * Keys missing from the file are appended at the end as `"key" = "value";` lines.
+ * When `fromTemplate` is set the file is a copy of the source, so entries without a translation are dropped.
+ */
+function serializeStrings(values: Record<string, ValueType>, template: string | undefined, fromTemplate = false) {
+  const text = template ?? '';
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const pending = new Map(Object.entries(values).map(([key, value]) => [key, String(value ?? '')]));
+
+  let result = text;
+  parseStrings(text).reverse().forEach(entry => {
+    const value = pending.get(entry.key);
+    if (value === undefined && fromTemplate) {
+      const lineStart = result.lastIndexOf('\n', entry.start - 1) + 1;
+      const start = /^[ \t]*$/.test(result.substring(lineStart, entry.start)) ? lineStart : entry.start;
+      const lineEnd = /^[ \t]*\r?\n/.exec(result.substring(entry.end))?.[0].length ?? 0;
+      result = result.substring(0, start) + result.substring(entry.end + lineEnd);
+      return;
+    }
+    if (value === undefined) return;
+    pending.delete(entry.key);
+    if (value === entry.value) return;
+    result = result.substring(0, entry.valueStart) + `"${escapeStrings(value)}"` + result.substring(entry.valueEnd);
+  });
+
+  // entries taken out of the end leave the blank line that separated them behind
+  if (fromTemplate && /\n\s*$/.test(text)) result = result.replace(/\s*$/, eol);
+
+  if (pending.size > 0) {
+    const lines = [...pending.entries()].map(([key, value]) => `"${escapeStrings(key)}" = "${escapeStrings(value)}";`);
+    const body = result.replace(/\s*$/, '');
+    result = (body ? body + eol + eol : '') + lines.join(eol) + eol;
+  }
+  return result;
+}
+
+export const stringsFormat: LocaleFormat = {
+  name: 'Apple .strings',
+  extensions: ['.strings'],
+  parse: text => Object.fromEntries(parseStrings(text).map(entry => [entry.key, entry.value])),
+  parseMeta: (text, { role = 'target' }) => role !== 'source' ? {} : Object.fromEntries(parseStrings(text)
+    .filter(entry => entry.comment && entry.comment !== 'No comment provided by engineer.')
+    .map(entry => [entry.key, { comments: [entry.comment!] }])),
+  serialize: (values, { original, source }) => original !== undefined && original.trim() !== ''
+    ? serializeStrings(values, original)
+    : serializeStrings(values, source, true),
+};
+
+// String catalogs keep every locale in one JSON file; plural variations become `key[one]`, `key[other]`, ...
+const PLURAL_KEY = /^([\s\S]*)\[(zero|one|two|few|many|other)\]$/;
+
+interface StringUnit {
+  state?: string;
+  value?: string;
+}
+
+interface CatalogEntry {
+  comment?: string;
+  shouldTranslate?: boolean;
+  localizations?: Record<string, { stringUnit?: StringUnit; variations?: { plural?: Record<string, { stringUnit?: StringUnit }> } }>;
+}
+
+interface Catalog {
+  sourceLanguage?: string;
+  strings?: Record<string, CatalogEntry>;
+}
+
+function catalogUnits(catalog: Catalog, locale: string, role: 'source' | 'target') {
+  const units: Record<string, StringUnit> = {};
+  Object.entries(catalog.strings || {}).forEach(([key, entry]) => {
+    if (entry.shouldTranslate === false) return;
+    const localization = entry.localizations?.[locale];
+    const plural = localization?.variations?.plural;
+    if (plural) {
+      Object.entries(plural).forEach(([category, variation]) => units[`${key}[${category}]`] = variation.stringUnit || {});
+    } else if (localization?.stringUnit) {
+      units[key] = localization.stringUnit;
+    } else if (role === 'source') {
+      // Xcode leaves the source localization out when the key itself is the source text
+      units[key] = { value: key };
+    }
+  });
+  return units;
+}
+
+// Path of the stringUnit a flat key is stored in; plural keys only count as such when the catalog has the base key
+function unitPath(catalog: Catalog, key: string, locale: string): string[] {
+  const plural = PLURAL_KEY.exec(key);
+  if (plural && !catalog.strings?.[key] && catalog.strings?.[plural[1]]) {
+    return ['strings', plural[1], 'localizations', locale, 'variations', 'plural', plural[2], 'stringUnit'];
+  }
+  return ['strings', key, 'localizations', locale, 'stringUnit'];
+}
+
+/**
+ * Writes one locale into a string catalog. Other locales and untouched entries keep their text;
+ * a changed unit is marked `translated`, or `needs_review` while the entry is still fuzzy.
+ */
+function serializeCatalog(values: Record<string, ValueType>, template: string | undefined, locale: string, sourceLocale: string | undefined, meta: Record<string, EntryMeta> = {}) {
+  const text = template && template.trim() !== ''
+    ? template
+    : JSON.stringify({ sourceLanguage: sourceLocale || locale, strings: {}, version: '1.0' }, null, 2).replaceAll('": ', '" : ') + '\n';
+  const catalog: Catalog = JSON.parse(text);
+  const units = catalogUnits(catalog, locale, 'target');
+
+  const entries: [(string | number)[], ValueType][] = [];
+  for (const key in values) {
+    const path = unitPath(catalog, key, locale);
+    const value = String(values[key] ?? '');
+    const current = units[key];
+    const state = meta[key]?.fuzzy ? 'needs_review' : current?.state === 'needs_review' && meta[key]?.fuzzy === undefined ? current.state : 'translated';
+    if (current?.value === value && current?.state === state) continue;
+    entries.push([[...path, 'state'], state], [[...path, 'value'], value]);
+  }
+  return entries.length > 0 ? patchJson(text, entries) : text;
+}
+
+export const xcstringsFormat: LocaleFormat = {
+  name: 'Xcode String Catalog',
+  extensions: ['.xcstrings'],
+  untranslatedAsEmpty: true,
+  parse: (text, { locale, role = 'target' }) => {
+    const units = catalogUnits(JSON.parse(text), locale, role);
+    return Object.fromEntries(Object.entries(units).map(([key, unit]) => [key, unit.value ?? '']));
+  },
+  parseMeta: (text, { locale, role = 'target' }) => {
+    const catalog: Catalog = JSON.parse(text);
+    const meta: Record<string, EntryMeta> = {};
+    Object.entries(catalogUnits(catalog, locale, role)).forEach(([key, unit]) => {
+      const comment = catalog.strings?.[PLURAL_KEY.exec(key)?.[1] ?? key]?.comment ?? catalog.strings?.[key]?.comment;
+      meta[key] = role === 'source' ? { comments: comment ? [comment] : undefined } : { fuzzy: unit.state === 'needs_review' };
+    });
+    return meta;
+  },
+  sourceValueFor: (key, source) => {
+    const plural = PLURAL_KEY.exec(key);
+    return plural ? source[`${plural[1]}[other]`] : undefined;
+  },
+  serialize: (values, { locale, original, source, sourceLocale, meta }) =>
+    serializeCatalog(values, original !== undefined && original.trim() !== '' ? original : source, locale, sourceLocale, meta),
+};
@@ -0,0 +1,14 @@
+import { LocaleFormat } from '../types';
+import { androidFormat } from './androidFormat';
+import { stringsFormat, xcstringsFormat } from './appleFormat';
+import { jsonFormat } from './jsonFormat';
+import { poFormat } from './poFormat';
+import { yamlFormat } from './yamlFormat';
+
+const formats: LocaleFormat[] = [jsonFormat, yamlFormat, poFormat, androidFormat, stringsFormat, xcstringsFormat];
+
+// Picks the format from the file extension; paths without a known extension are read as JSON
+export function formatForPath(path: string): LocaleFormat {
+  const lowerPath = path.toLowerCase();
+  return formats.find(f => f.extensions.some(ext => lowerPath.endsWith(ext))) || jsonFormat;
+}
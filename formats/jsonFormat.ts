@@ -0,0 +1,261 @@
+import { LocaleFormat, ValueType } from '../types';
+import { flattenObject, parseKeyPath, unflattenObject } from '../utils';
+
+type JsonNode =
+  | { type: 'object'; start: number; end: number; depth: number; members: { key: string; value: JsonNode }[] }
+  | { type: 'array'; start: number; end: number; depth: number; items: JsonNode[] }
+  | { type: 'value'; start: number; end: number; depth: number; value: ValueType };
+
+type ContainerNode = Extract<JsonNode, { type: 'object' | 'array' }>;
+
+interface JsonStyle {
+  indent: string;
+  eol: string;
+  finalNewline: boolean;
+  multiline: boolean;
+  colon: string;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Minimal JSON parser that keeps the source offsets of every node
+function parseWithPositions(text: string): JsonNode {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const fail = (): never => {
+    throw new Error(`Unexpected token at position ${pos} while parsing JSON`);
+  };
+
+  const parseString = () => {
+    const start = pos;
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      pos += text[pos] === '\\' ? 2 : 1;
+    }
+    if (pos >= text.length) fail();
+    pos++;
+    return JSON.parse(text.substring(start, pos)) as string;
+  };
+
+  const parseValue = (depth: number): JsonNode => {
+    skipWhitespace();
+    const start = pos;
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      const members: { key: string; value: JsonNode }[] = [];
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return { type: 'object', start, end: pos, depth, members };
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[pos] !== '"') fail();
+        const key = parseString();
+        skipWhitespace();
+        if (text[pos] !== ':') fail();
+        pos++;
+        members.push({ key, value: parseValue(depth + 1) });
+        skipWhitespace();
+        if (text[pos] === ',') { pos++; continue; }
+        if (text[pos] === '}') { pos++; break; }
+        fail();
+      }
+      return { type: 'object', start, end: pos, depth, members };
+    }
+
+    if (char === '[') {
+      pos++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return { type: 'array', start, end: pos, depth, items };
+      }
+      while (true) {
+        items.push(parseValue(depth + 1));
+        skipWhitespace();
+        if (text[pos] === ',') { pos++; continue; }
+        if (text[pos] === ']') { pos++; break; }
+        fail();
+      }
+      return { type: 'array', start, end: pos, depth, items };
+    }
+
+    if (char === '"') {
+      const value = parseString();
+      return { type: 'value', start, end: pos, depth, value };
+    }
+
+    const literal = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(text.substring(pos));
+    if (!literal) fail();
+    pos += literal[0].length;
+    return { type: 'value', start, end: pos, depth, value: JSON.parse(literal[0]) };
+  };
+
+  const root = parseValue(0);
+  skipWhitespace();
+  if (pos < text.length) fail();
+  return root;
+}
+
+function detectStyle(text: string, root: JsonNode): JsonStyle {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const body = text.substring(root.start, root.end);
+  const indent = /\n([ \t]+)\S/.exec(body)?.[1] ?? '    ';
+  const colon = /"(\s*:\s*)/.exec(body)?.[1] ?? ': ';
+  return {
+    indent,
+    eol,
+    finalNewline: /\r?\n$/.test(text),
+    multiline: body.includes('\n') || body.length <= 2,
+    colon,
+  };
+}
+
+function stringifyValue(value: any, depth: number, style: JsonStyle, inline = false) {
+  if (!style.multiline || inline) return JSON.stringify(value);
+  return JSON.stringify(value, null, style.indent)
+    .replace(/^(\s*"(?:[^"\\]|\\.)*"): /gm, (_, key) => key + style.colon)
+    .split('\n').join(style.eol + style.indent.repeat(depth));
+}
+
+function findChild(node: ContainerNode, segment: string | number): JsonNode | undefined {
+  if (node.type === 'object') {
+    // Duplicate keys resolve to the last occurrence, as JSON.parse does
+    for (let i = node.members.length - 1; i >= 0; i--) {
+      if (node.members[i].key === String(segment)) return node.members[i].value;
+    }
+    return undefined;
+  }
+  return typeof segment === 'number' ? node.items[segment] : undefined;
+}
+
+function insertionEdit(text: string, node: ContainerNode, additions: Map<string | number, any>, style: JsonStyle): Edit | null {
+  const entries = [...additions.entries()];
+  const body = text.substring(node.start, node.end);
+  // Containers written on one line (e.g. short arrays) stay on one line
+  const inline = !style.multiline || (!body.includes('\n') && body.length > 2);
+  const childIndent = inline ? '' : style.eol + style.indent.repeat(node.depth + 1);
+  const closingIndent = inline ? '' : style.eol + style.indent.repeat(node.depth);
+  const separator = inline && /,\s/.test(body) ? ', ' : ',';
+
+  let parts: string[];
+  if (node.type === 'object') {
+    parts = entries.map(([key, value]) => `${childIndent}${JSON.stringify(String(key))}${style.colon}${stringifyValue(value, node.depth + 1, style, inline)}`);
+  } else {
+    // Arrays can only grow at the end; holes would change the meaning of every later index
+    entries.sort((a, b) => Number(a[0]) - Number(b[0]));
+    parts = [];
+    let next = node.items.length;
+    for (const [index, value] of entries) {
+      if (index !== next) break;
+      parts.push(`${childIndent}${stringifyValue(value, node.depth + 1, style, inline)}`);
+      next++;
+    }
+  }
+  if (parts.length === 0) return null;
+
+  const children = node.type === 'object' ? node.members.map(m => m.value) : node.items;
+  if (children.length === 0) {
+    return { start: node.start + 1, end: node.end - 1, text: parts.join(separator) + closingIndent };
+  }
+  const last = children[children.length - 1];
+  return { start: last.end, end: last.end, text: separator + parts.join(separator) };
+}
+
+function assignPath(target: any, path: (string | number)[], value: ValueType) {
+  let node = target;
+  path.forEach((segment, i) => {
+    if (i === path.length - 1) {
+      node[segment] = value;
+      return;
+    }
+    if (node[segment] === undefined || node[segment] === null) node[segment] = typeof path[i + 1] === 'number' ? [] : {};
+    node = node[segment];
+  });
+  return target;
+}
+
+/**
+ * Writes values addressed by explicit paths into `original`, changing only the values that differ.
+ * Used directly by formats whose keys may contain dots (e.g. Xcode string catalogs).
+ */
+export function patchJson(original: string, entries: [(string | number)[], ValueType][]): string {
+  const root = parseWithPositions(original);
+  if (root.type === 'value') throw new Error('Target JSON must be an object or an array');
+  const style = detectStyle(original, root);
+
+  const edits: Edit[] = [];
+  const additions = new Map<ContainerNode, Map<string | number, any>>();
+
+  for (const [path, value] of entries) {
+    let node: JsonNode = root;
+    let depth = 0;
+    while (depth < path.length && node.type !== 'value') {
+      const child = findChild(node, path[depth]);
+      if (!child) break;
+      node = child;
+      depth++;
+    }
+
+    if (depth === path.length) {
+      if (node.type === 'value' && node.value !== value) {
+        edits.push({ start: node.start, end: node.end, text: JSON.stringify(value) });
+      }
+      continue;
+    }
+    if (node.type === 'value') continue;
+
+    // Build the missing part of the path as a nested value under the deepest existing container
+    const pending = additions.get(node) || new Map<string | number, any>();
+    additions.set(node, pending);
+    const rest = path.slice(depth);
+    if (rest.length === 1) {
+      pending.set(rest[0], value);
+    } else {
+      pending.set(rest[0], assignPath(pending.get(rest[0]) || (typeof rest[1] === 'number' ? [] : {}), rest.slice(1), value));
+    }
+  }
+
+  additions.forEach((pending, node) => {
+    const edit = insertionEdit(original, node, pending, style);
+    if (edit) edits.push(edit);
+  });
+
+  let result = original;
+  edits.sort((a, b) => b.start - a.start).forEach(edit => {
+    result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+  });
+  return result;
+}
+
+/**
+ * Writes flattened values back into `original`, changing only the values that differ.
+ * Key order, indentation, line endings and the final newline of the original text are kept;
+ * keys missing from it are appended to the end of their parent object.
+ * Without an original text the file is rebuilt from the flattened `base` with a 4-space indent.
+ */
+export function serializeJson(values: Record<string, ValueType>, original?: string, base: Record<string, ValueType> = {}): string {
+  if (original === undefined || original.trim() === '') {
+    return JSON.stringify(unflattenObject({ ...base, ...values }), null, 4);
+  }
+  return patchJson(original, Object.keys(values).map(key => [parseKeyPath(key), values[key]]));
+}
+
+export const jsonFormat: LocaleFormat = {
+  name: 'JSON',
+  extensions: ['.json'],
+  parse: text => flattenObject(JSON.parse(text)),
+  serialize: (values, { original, base }) => serializeJson(values, original, base),
+};
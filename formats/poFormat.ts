@@ -0,0 +1,411 @@
+import { EntryMeta, LocaleFormat, ValueType } from '../types';
+
+// gettext joins msgctxt and msgid with EOT in compiled catalogs; keys use the same convention
+export const CONTEXT_SEPARATOR = '\u0004';
+
+const PLURAL_KEY = /^([\s\S]*)\[(\d+)\]$/;
+
+// Plural-Forms header gettext uses for languages whose rule differs from the source's two forms
+const PLURAL_FORMS: Record<string, string> = {
+  ja: 'nplurals=1; plural=0;',
+  ko: 'nplurals=1; plural=0;',
+  zh: 'nplurals=1; plural=0;',
+  vi: 'nplurals=1; plural=0;',
+  th: 'nplurals=1; plural=0;',
+  id: 'nplurals=1; plural=0;',
+  ms: 'nplurals=1; plural=0;',
+  fr: 'nplurals=2; plural=(n > 1);',
+  'pt-br': 'nplurals=2; plural=(n > 1);',
+  pl: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  ru: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  uk: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  be: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  sr: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  hr: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  bs: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  cs: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;',
+  sk: 'nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;',
+  lt: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2);',
+  lv: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2);',
+  ro: 'nplurals=3; plural=(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2);',
+  sl: 'nplurals=4; plural=(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3);',
+  ga: 'nplurals=5; plural=(n==1 ? 0 : n==2 ? 1 : n<7 ? 2 : n<11 ? 3 : 4);',
+  ar: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+};
+
+interface PoField {
+  keyword: string;
+  index?: number;
+  value: string;
+  // line range [start, end) inside the entry
+  start: number;
+  end: number;
+  newValue?: string;
+  // left out when the entry is written
+  removed?: boolean;
+}
+
+interface PoEntry {
+  lines: string[];
+  fields: PoField[];
+  translatorComments: string[];
+  extractedComments: string[];
+  references: string[];
+  flags: string[];
+  previousMsgid?: string;
+  obsolete: boolean;
+  newFlags?: string[];
+  appended: PoField[];
+}
+
+interface PoFile {
+  // entries, and blank lines between them kept verbatim
+  segments: (PoEntry | string)[];
+  eol: string;
+  finalNewline: boolean;
+}
+
+function unescapePo(text: string) {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', f: '\f', v: '\v' };
+  return text.replace(/\\(.)/g, (_, char) => escapes[char] ?? char);
+}
+
+function escapePo(text: string) {
+  return text.replaceAll('\\', '\\\\').replaceAll('"', '\\"').replaceAll('\n', '\\n').replaceAll('\t', '\\t').replaceAll('\r', '\\r');
+}
+
+function unquote(text: string) {
+  const match = /^"(.*)"\s*$/.exec(text.trim());
+  return match ? unescapePo(match[1]) : '';
+}
+
+function formatField(keyword: string, index: number | undefined, value: string) {
+  const name = index !== undefined ? `${keyword}[${index}]` : keyword;
+  const parts = value.split(/(?<=\n)/);
+  if (parts.length <= 1) return [`${name} "${escapePo(value)}"`];
+  return [`${name} ""`, ...parts.map(part => `"${escapePo(part)}"`)];
+}
+
+function parsePo(text: string): PoFile {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const lines = text.split(/\r?\n/);
+  const finalNewline = lines[lines.length - 1] === '';
+  if (finalNewline) lines.pop();
+
+  const segments: (PoEntry | string)[] = [];
+  let entry: PoEntry | null = null;
+  let lastField: PoField | null = null;
+  let inPrevious = false;
+
+  for (const line of lines) {
+    if (line.trim() === '') {
+      entry = null;
+      segments.push(line);
+      continue;
+    }
+    if (!entry) {
+      entry = { lines: [], fields: [], translatorComments: [], extractedComments: [], references: [], flags: [], obsolete: false, appended: [] };
+      segments.push(entry);
+      lastField = null;
+    }
+    entry.lines.push(line);
+    const index = entry.lines.length - 1;
+
+    if (line.startsWith('#~')) {
+      entry.obsolete = true;
+    } else if (line.startsWith('#|')) {
+      const previous = /^#\|\s*msgid\s+(".*")\s*$/.exec(line);
+      if (previous) {
+        entry.previousMsgid = unquote(previous[1]);
+        inPrevious = true;
+      } else if (inPrevious && line.substring(2).trim().startsWith('"')) {
+        entry.previousMsgid += unquote(line.substring(2));
+      } else {
+        inPrevious = false;
+      }
+      continue;
+    } else if (line.startsWith('#.')) {
+      entry.extractedComments.push(line.substring(2).trim());
+    } else if (line.startsWith('#:')) {
+      entry.references.push(...line.substring(2).trim().split(/\s+/).filter(Boolean));
+    } else if (line.startsWith('#,')) {
+      entry.flags.push(...line.substring(2).split(',').map(f => f.trim()).filter(Boolean));
+    } else if (line.startsWith('#')) {
+      entry.translatorComments.push(line.substring(1).replace(/^ /, ''));
+    } else {
+      const keyword = /^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+(".*")\s*$/.exec(line);
+      if (keyword) {
+        lastField = { keyword: keyword[1], index: keyword[2] !== undefined ? Number(keyword[2]) : undefined, value: unquote(keyword[3]), start: index, end: index + 1 };
+        entry.fields.push(lastField);
+      } else if (lastField && line.trim().startsWith('"')) {
+        lastField.value += unquote(line);
+        lastField.end = index + 1;
+      }
+    }
+    inPrevious = false;
+  }
+
+  return { segments, eol, finalNewline };
+}
+
+function getField(entry: PoEntry, keyword: string, index?: number) {
+  return entry.fields.find(f => f.keyword === keyword && f.index === index);
+}
+
+function isHeader(entry: PoEntry) {
+  return getField(entry, 'msgid')?.value === '' && !getField(entry, 'msgctxt');
+}
+
+function entryBase(entry: PoEntry) {
+  const msgid = getField(entry, 'msgid');
+  if (!msgid) return undefined;
+  const msgctxt = getField(entry, 'msgctxt');
+  return msgctxt ? `${msgctxt.value}${CONTEXT_SEPARATOR}${msgid.value}` : msgid.value;
+}
+
+function pluralForms(entry: PoEntry) {
+  return entry.fields.filter(f => f.keyword === 'msgstr' && f.index !== undefined).map(f => f.index as number);
+}
+
+function pluralFormsFor(locale: string): string | undefined {
+  const normalized = locale.toLowerCase().replaceAll('_', '-');
+  return PLURAL_FORMS[normalized] ?? PLURAL_FORMS[normalized.split('-')[0]];
+}
+
+// Plural forms a catalog has: its header's nplurals, else the usual count for its language
+function pluralCount(file: PoFile | undefined, locale: string) {
+  const nplurals = (text?: string) => Number(/nplurals\s*=\s*(\d+)/.exec(text || '')?.[1]) || undefined;
+  return (file && nplurals(headerValue(file)?.text)) ?? nplurals(pluralFormsFor(locale));
+}
+
+function translatableEntries(file: PoFile) {
+  return file.segments.filter((s): s is PoEntry => typeof s !== 'string' && !s.obsolete && !isHeader(s) && entryBase(s) !== undefined);
+}
+
+// Keys and values of one entry: a single row, or one row per plural form; a target gets a row for every
+// one of its `nplurals` forms, even those the entry has no msgstr[n] for yet
+function entryValues(entry: PoEntry, role: 'source' | 'target', nplurals = 0) {
+  const base = entryBase(entry) as string;
+  const msgid = getField(entry, 'msgid')?.value || '';
+  const plural = getField(entry, 'msgid_plural');
+  const values: Record<string, string> = {};
+  if (!plural) {
+    values[base] = role === 'source' ? msgid : (getField(entry, 'msgstr')?.value || '');
+    return values;
+  }
+  const forms = pluralForms(entry);
+  const count = Math.max(forms.length ? Math.max(...forms) + 1 : 0, role === 'source' ? 2 : nplurals);
+  for (let n = 0; n < count; n++) {
+    values[`${base}[${n}]`] = role === 'source' ? (n === 0 ? msgid : plural.value) : (getField(entry, 'msgstr', n)?.value || '');
+  }
+  return values;
+}
+
+function headerValue(file: PoFile) {
+  const header = file.segments.find((s): s is PoEntry => typeof s !== 'string' && isHeader(s));
+  return header ? { header, text: getField(header, 'msgstr')?.value || '' } : undefined;
+}
+
+function setField(entry: PoEntry, keyword: string, index: number | undefined, value: string) {
+  const field = getField(entry, keyword, index) || entry.appended.find(f => f.keyword === keyword && f.index === index);
+  if (field) {
+    if (field.value !== value || field.newValue !== undefined) field.newValue = value;
+    return;
+  }
+  entry.appended.push({ keyword, index, value, start: -1, end: -1, newValue: value });
+}
+
+function setFuzzy(entry: PoEntry, fuzzy: boolean) {
+  if (entry.flags.includes('fuzzy') === fuzzy) return;
+  entry.newFlags = fuzzy ? ['fuzzy', ...entry.flags] : entry.flags.filter(f => f !== 'fuzzy');
+}
+
+function writeEntry(entry: PoEntry) {
+  const out: string[] = [];
+  // Missing msgstr[n] lines go right after the existing ones
+  const msgstrEnds = entry.fields.filter(f => f.keyword === 'msgstr').map(f => f.end);
+  const appendAfter = msgstrEnds.length > 0 ? Math.max(...msgstrEnds) : entry.lines.length;
+  let flagsWritten = entry.newFlags === undefined;
+
+  const writeFlags = () => {
+    if (!flagsWritten && entry.newFlags && entry.newFlags.length > 0) out.push(`#, ${entry.newFlags.join(', ')}`);
+    flagsWritten = true;
+  };
+
+  for (let i = 0; i < entry.lines.length; i++) {
+    const line = entry.lines[i];
+    if (entry.newFlags !== undefined && line.startsWith('#,')) {
+      writeFlags();
+      continue;
+    }
+    // The previous msgid only means something while the entry is fuzzy
+    if (entry.newFlags !== undefined && !entry.newFlags.includes('fuzzy') && line.startsWith('#|')) continue;
+    if (!line.startsWith('#') || line.startsWith('#|')) writeFlags();
+    const field = entry.fields.find(f => f.start === i);
+    if (field?.removed) {
+      i = field.end - 1;
+    } else if (field && field.newValue !== undefined) {
+      out.push(...formatField(field.keyword, field.index, field.newValue));
+      i = field.end - 1;
+    } else {
+      out.push(line);
+    }
+    if (i === appendAfter - 1) {
+      entry.appended.sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).forEach(f => out.push(...formatField(f.keyword, f.index, f.newValue as string)));
+    }
+  }
+  writeFlags();
+  return out;
+}
+
+// Lines of a new entry copied from the source template, with its translations cleared
+function templateEntry(source: PoEntry | undefined, base: string, plural: boolean): PoEntry {
+  const lines: string[] = [];
+  if (source) {
+    source.lines.forEach(line => {
+      if (line.startsWith('#,')) {
+        const flags = source.flags.filter(f => f !== 'fuzzy');
+        if (flags.length > 0) lines.push(`#, ${flags.join(', ')}`);
+      } else if (line.startsWith('#.') || line.startsWith('#:')) {
+        lines.push(line);
+      }
+    });
+    source.fields.filter(f => f.keyword !== 'msgstr').forEach(f => lines.push(...source.lines.slice(f.start, f.end)));
+  } else {
+    const [msgctxt, msgid] = base.includes(CONTEXT_SEPARATOR) ? base.split(CONTEXT_SEPARATOR) : [undefined, base];
+    if (msgctxt !== undefined) lines.push(...formatField('msgctxt', undefined, msgctxt));
+    lines.push(...formatField('msgid', undefined, msgid));
+    if (plural) lines.push(...formatField('msgid_plural', undefined, msgid));
+  }
+  if (!plural) lines.push(...formatField('msgstr', undefined, ''));
+  return parsePo(lines.join('\n')).segments[0] as PoEntry;
+}
+
+function serializePo(values: Record<string, ValueType>, original: string | undefined, source: string | undefined, locale: string, meta: Record<string, { fuzzy?: boolean }> = {}) {
+  const fromTemplate = original === undefined || original.trim() === '';
+  const file = parsePo(fromTemplate ? (source?.trim() ? source : `msgid ""\nmsgstr ""\n"Content-Type: text/plain; charset=UTF-8\\n"\n`) : original);
+  const sourceFile = source?.trim() ? parsePo(source) : undefined;
+
+  const header = headerValue(file);
+  if (fromTemplate && header) {
+    // A new catalog starts from the template header, stamped with the target language and its plural rule
+    const stamp = (text: string, name: string, value: string) => new RegExp(`^${name}:.*$`, 'm').test(text)
+      ? text.replace(new RegExp(`^${name}:.*$`, 'm'), `${name}: ${value}`)
+      : `${text}${name}: ${value}\n`;
+    const pluralForms = pluralFormsFor(locale);
+    let text = stamp(header.text, 'Language', locale);
+    if (pluralForms) text = stamp(text, 'Plural-Forms', pluralForms);
+    setField(header.header, 'msgstr', undefined, text);
+    setFuzzy(header.header, false);
+  }
+  const nplurals = pluralCount(file, locale);
+
+  const written = new Set<string>();
+  const applyValues = (entry: PoEntry) => {
+    const base = entryBase(entry) as string;
+    const plural = !!getField(entry, 'msgid_plural');
+    const keys: string[] = [];
+    if (plural) {
+      const count = nplurals ?? Math.max(2, ...pluralForms(entry).map(n => n + 1));
+      for (let n = 0; n < count; n++) {
+        const key = `${base}[${n}]`;
+        keys.push(key);
+        if (key in values) setField(entry, 'msgstr', n, String(values[key] ?? ''));
+        else if (fromTemplate) setField(entry, 'msgstr', n, '');
+      }
+      // a new catalog only has the forms its language uses, fewer than the template's for e.g. Japanese
+      if (fromTemplate) entry.fields.filter(f => f.keyword === 'msgstr' && (f.index ?? 0) >= count).forEach(f => f.removed = true);
+    } else {
+      keys.push(base);
+      if (base in values) setField(entry, 'msgstr', undefined, String(values[base] ?? ''));
+      else if (fromTemplate) setField(entry, 'msgstr', undefined, '');
+    }
+    keys.forEach(key => written.add(key));
+    const fuzzy = keys.map(key => meta[key]?.fuzzy).filter(f => f !== undefined);
+    if (fuzzy.length > 0) setFuzzy(entry, fuzzy.some(Boolean));
+    else if (fromTemplate) setFuzzy(entry, false);
+  };
+  translatableEntries(file).forEach(applyValues);
+
+  // Entries the file does not have yet go after the last active entry, ahead of obsolete ones
+  const added: PoEntry[] = [];
+  const addedBases = new Set<string>();
+  const existingBases = new Set(translatableEntries(file).map(entry => entryBase(entry) as string));
+  Object.keys(values).filter(key => !written.has(key)).forEach(key => {
+    const plural = PLURAL_KEY.exec(key);
+    const sourceEntry = sourceFile && translatableEntries(sourceFile).find(e => {
+      const base = entryBase(e);
+      return base === key || (plural && base === plural[1] && !!getField(e, 'msgid_plural'));
+    });
+    const base = sourceEntry ? entryBase(sourceEntry) as string : (plural ? plural[1] : key);
+    // forms beyond the catalog's nplurals have no place in an entry it already has
+    if (addedBases.has(base) || existingBases.has(base)) return;
+    addedBases.add(base);
+    const entry = templateEntry(sourceEntry, base, sourceEntry ? !!getField(sourceEntry, 'msgid_plural') : !!plural);
+    applyValues(entry);
+    added.push(entry);
+  });
+
+  if (added.length > 0) {
+    let insertAt = file.segments.length;
+    while (insertAt > 0) {
+      const segment = file.segments[insertAt - 1];
+      if (typeof segment !== 'string' && !segment.obsolete) break;
+      insertAt--;
+    }
+    file.segments.splice(insertAt, 0, ...added.flatMap(entry => ['', entry] as (PoEntry | string)[]));
+  }
+
+  const lines = file.segments.flatMap(segment => typeof segment === 'string' ? [segment] : writeEntry(segment));
+  return lines.join(file.eol) + (file.finalNewline || fromTemplate ? file.eol : '');
+}
+
+export const poFormat: LocaleFormat = {
+  name: 'Gettext PO',
+  extensions: ['.po', '.pot'],
+  untranslatedAsEmpty: true,
+  parse: (text, { locale, role = 'target' }) => {
+    const file = parsePo(text);
+    const nplurals = pluralCount(file, locale);
+    const values: Record<string, ValueType> = {};
+    translatableEntries(file).forEach(entry => Object.assign(values, entryValues(entry, role, nplurals)));
+    return values;
+  },
+  parseMeta: (text, { locale, role = 'target' }) => {
+    const file = parsePo(text);
+    const nplurals = pluralCount(file, locale);
+    const meta: Record<string, EntryMeta> = {};
+    translatableEntries(file).forEach(entry => {
+      const context = getField(entry, 'msgctxt')?.value;
+      Object.keys(entryValues(entry, role, nplurals)).forEach(key => {
+        const pluralForm = PLURAL_KEY.exec(key) && getField(entry, 'msgid_plural') ? Number(PLURAL_KEY.exec(key)?.[2]) : undefined;
+        meta[key] = role === 'source' ? {
+          context,
+          comments: entry.extractedComments,
+          references: entry.references,
+          flags: entry.flags.filter(f => f !== 'fuzzy'),
+          pluralForm,
+        } : {
+          comments: entry.translatorComments,
+          fuzzy: entry.flags.includes('fuzzy'),
+          previousSource: entry.previousMsgid,
+        };
+      });
+    });
+    return meta;
+  },
+  // Languages with more plural forms than the source get rows for the extra msgstr[n] too
+  sourceValueFor: (key, source) => {
+    const plural = PLURAL_KEY.exec(key);
+    return plural ? source[`${plural[1]}[1]`] : undefined;
+  },
+  newTargetKeys: (source, locale) => {
+    const nplurals = pluralCount(undefined, locale) || 0;
+    return Object.keys(source).flatMap(key => {
+      const plural = PLURAL_KEY.exec(key);
+      if (!plural || plural[2] !== '1') return [];
+      return Array.from({ length: Math.max(0, nplurals - 2) }, (_, n) => `${plural[1]}[${n + 2}]`);
+    });
+  },
+  serialize: (values, { locale, original, source, meta }) => serializePo(values, original, source, locale, meta),
+};
@@ -0,0 +1,186 @@
+import { Document, isAlias, isCollection, isMap, isNode, isPair, isScalar, isSeq, parse, parseDocument, visit } from 'yaml';
+import { LocaleFormat, ValueType } from '../types';
+import { flattenObject, parseKeyPath, unflattenObject } from '../utils';
+
+const normalizeLocale = (locale: string) => locale.toLowerCase().replaceAll('_', '-');
+
+// Rails-style files nest everything under a single `en:`/`ko:` root named after the locale
+function localeRoot(data: any, locale?: string): string | undefined {
+  if (!locale || !data || typeof data !== 'object' || Array.isArray(data)) return undefined;
+  const keys = Object.keys(data);
+  return keys.length === 1 && normalizeLocale(keys[0]) === normalizeLocale(locale) ? keys[0] : undefined;
+}
+
+function detectIndent(text: string) {
+  return /\n( +)\S/.exec(text)?.[1].length || 2;
+}
+
+// `key:\n- item` keeps sequences level with their parent key instead of indenting them
+function detectIndentSeq(text: string) {
+  return !/^( *)[^\s#-][^\n]*:[ \t]*\r?\n\1- /m.test(text);
+}
+
+// `<<` keys merge the entries of other maps into theirs; parsed with `merge` they hold a symbol
+function isMergeKey(key: any) {
+  return isScalar(key) && (key.value === '<<' || (typeof key.value === 'symbol' && key.value.description === '<<'));
+}
+
+// Child of a collection as the document reads it: its own entry, or one a merge key brings in
+function childOf(doc: Document, node: any, segment: string | number): any {
+  const child = node.get(segment, true);
+  if (child !== undefined || !isMap(node)) return child;
+  for (const pair of node.items.filter((pair: any) => isMergeKey(pair.key))) {
+    const value: any = isAlias(pair.value) ? pair.value.resolve(doc) : pair.value;
+    for (const item of isSeq(value) ? value.items : [value]) {
+      const merged: any = isAlias(item) ? item.resolve(doc) : item;
+      const found = isMap(merged) ? childOf(doc, merged, segment) : undefined;
+      if (found !== undefined) return found;
+    }
+  }
+  return undefined;
+}
+
+// Node at `path` after following aliases and merge keys
+function resolveIn(doc: Document, path: (string | number)[]) {
+  let node: any = doc.contents;
+  for (const segment of path) {
+    if (isAlias(node)) node = node.resolve(doc);
+    node = isCollection(node) ? childOf(doc, node, segment) : undefined;
+    if (node === undefined) return undefined;
+  }
+  return isAlias(node) ? node.resolve(doc) : node;
+}
+
+// Collections reached through an alias or a merge key on the way to `path` are copied in place, so the value
+// written there does not change the anchor or the other places that share it
+function detachAliases(doc: Document, path: (string | number)[]) {
+  let node: any = doc.contents;
+  for (const segment of path.slice(0, -1)) {
+    if (!isCollection(node)) return;
+    let child: any = node.get(segment, true);
+    if (isAlias(child) || child === undefined) {
+      const resolved = isAlias(child) ? child.resolve(doc) : childOf(doc, node, segment);
+      if (!isCollection(resolved)) return;
+      child = resolved.clone();
+      // anchors inside stay with the original, which every later alias still resolves to
+      visit(child, (_, item) => {
+        if (isNode(item)) item.anchor = undefined;
+      });
+      node.set(segment, child);
+    }
+    node = child;
+  }
+}
+
+// Whether `path` is written out in place rather than reached through an alias or a merge key
+function ownsPath(doc: Document, path: (string | number)[]) {
+  let node: any = doc.contents;
+  for (const segment of path) {
+    if (!isCollection(node)) return false;
+    node = node.get(segment, true);
+    if (node === undefined || isAlias(node)) return false;
+  }
+  return true;
+}
+
+// Removes maps and sequences left without any entry
+function pruneEmpty(node: any): boolean {
+  if (!isCollection(node)) return false;
+  [...node.items].forEach((item: any) => {
+    const child = isMap(node) ? item.value : item;
+    if (pruneEmpty(child)) node.items.splice(node.items.indexOf(item), 1);
+  });
+  return node.items.length === 0;
+}
+
+// Takes out aliases and merge keys whose anchor was removed; sequence items followed by others are emptied
+// instead, so the rest do not shift. Returns whether there were any
+function dropDangling(doc: Document) {
+  let dropped = false;
+  const dangling = (node: any) => isAlias(node) && !node.resolve(doc);
+  visit(doc, {
+    Pair: (_, pair) => {
+      if (!dangling(pair.value)) return;
+      dropped = true;
+      return visit.REMOVE;
+    },
+    Alias: (index, alias, path) => {
+      const seq: any = path[path.length - 1];
+      if (!isSeq(seq) || !dangling(alias)) return;
+      dropped = true;
+      const parent: any = path[path.length - 2];
+      const last = seq.items.slice(Number(index) + 1).every(dangling);
+      return (isPair(parent) && isMergeKey(parent.key)) || last ? visit.REMOVE : doc.createNode('');
+    },
+  });
+  return dropped;
+}
+
+/**
+ * Takes the source template's entries out of a new file that no translation was given for. Items of a
+ * sequence that keeps other translations are emptied instead, since removing them would shift the rest.
+ * Entries that come from an anchor go with the anchor's own, and aliases and merge keys left without
+ * their anchor are taken out too.
+ */
+function dropUntranslated(doc: Document, root: string | undefined, values: Record<string, ValueType>) {
+  const data = doc.toJS();
+  const keys = Object.keys(flattenObject(root !== undefined ? data[root] : data)).filter(key => !(key in values));
+  const translatedParents = new Set(Object.keys(values).map(key => parseKeyPath(key).slice(0, -1).join('\0')));
+  // later keys first, so deleting a sequence item never moves one still to be visited
+  keys.reverse().forEach(key => {
+    const keyPath = parseKeyPath(key);
+    const path = root !== undefined ? [root, ...keyPath] : keyPath;
+    if (!ownsPath(doc, path)) return;
+    const parentPath = path.slice(0, -1);
+    const keepsOthers = translatedParents.has(keyPath.slice(0, -1).join('\0'));
+    if (isSeq(doc.getIn(parentPath, true)) && keepsOthers) doc.setIn(path, '');
+    else doc.deleteIn(path);
+  });
+  do {
+    pruneEmpty(root !== undefined ? doc.getIn([root], true) : doc.contents);
+  } while (dropDangling(doc));
+}
+
+function serializeYaml(values: Record<string, ValueType>, template: string | undefined, templateLocale: string | undefined, locale: string, base: Record<string, ValueType> = {}, fromTemplate = false) {
+  if (template === undefined || template.trim() === '') {
+    return new Document(unflattenObject({ ...base, ...values })).toString({ lineWidth: 0 });
+  }
+
+  const doc = parseDocument(template, { merge: true });
+  if (doc.errors.length > 0) throw doc.errors[0];
+
+  let root = localeRoot(doc.toJS(), templateLocale);
+  if (root !== undefined && templateLocale !== locale && isMap(doc.contents)) {
+    // A file created from the source template takes the target locale as its root
+    const rootKey = doc.contents.items[0].key;
+    if (isScalar(rootKey)) rootKey.value = locale;
+    root = locale;
+  }
+
+  for (const key in values) {
+    const path = root !== undefined ? [root, ...parseKeyPath(key)] : parseKeyPath(key);
+    const current = resolveIn(doc, path);
+    if (isScalar(current) && current.value === values[key]) continue;
+    detachAliases(doc, path);
+    doc.setIn(path, values[key]);
+  }
+  if (fromTemplate) dropUntranslated(doc, root, values);
+
+  const eol = template.includes('\r\n') ? '\r\n' : '\n';
+  let result = doc.toString({ lineWidth: 0, indent: detectIndent(template), indentSeq: detectIndentSeq(template) });
+  if (!/\r?\n$/.test(template)) result = result.replace(/\n$/, '');
+  return eol === '\n' ? result : result.replaceAll('\n', eol);
+}
+
+export const yamlFormat: LocaleFormat = {
+  name: 'YAML',
+  extensions: ['.yml', '.yaml'],
+  parse: (text, { locale }) => {
+    const data = parse(text, { merge: true }) ?? {};
+    const root = localeRoot(data, locale);
+    return flattenObject(root !== undefined ? data[root] : data);
+  },
+  serialize: (values, { locale, original, base, source, sourceLocale }) => original !== undefined && original.trim() !== ''
+    ? serializeYaml(values, original, locale, locale, base)
+    : serializeYaml(values, source, sourceLocale, locale, base, true),
+};
@@ -0,0 +1,67 @@
+import { GlossaryTerm, ValidationIssue } from "./types";
+
+// Scripts written without spaces, where a term is matched anywhere instead of as a whole word
+const UNSPACED = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+const WORD = /[\p{L}\p{N}_]/u;
+
+function termPattern(term: GlossaryTerm) {
+  const text = term.source.trim();
+  const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const edge = (char: string) => WORD.test(char) && !UNSPACED.test(char);
+  const before = edge(text[0]) ? '(?<![\\p{L}\\p{N}_])' : '';
+  const after = edge(text[text.length - 1]) ? '(?![\\p{L}\\p{N}_])' : '';
+  return new RegExp(before + escaped + after, term.caseSensitive ? 'gu' : 'giu');
+}
+
+// Project terms followed by the shared terms the project does not redefine
+export function mergeGlossaries(project: GlossaryTerm[] = [], shared: GlossaryTerm[] = []) {
+  const own = new Set(project.map(term => term.source.trim().toLowerCase()));
+  return [...project, ...shared.filter(term => !own.has(term.source.trim().toLowerCase()))].filter(term => term.source.trim() !== '');
+}
+
+// The translation a term requires in a locale, falling back to its language; undefined when none is set
+export function termTarget(term: GlossaryTerm, locale: string) {
+  if (term.doNotTranslate) return term.source.trim();
+  return term.targets[locale] || term.targets[locale.split(/[-_]/)[0]] || undefined;
+}
+
+// Term occurrences in a text, longest terms first and without overlaps, in text order
+export function findTerms(text: string, terms: GlossaryTerm[]) {
+  const found: { term: GlossaryTerm; start: number; end: number }[] = [];
+  [...terms].sort((a, b) => b.source.length - a.source.length).forEach(term => {
+    for (const match of text.matchAll(termPattern(term))) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (!found.some(other => start < other.end && other.start < end)) found.push({ term, start, end });
+    }
+  });
+  return found.sort((a, b) => a.start - b.start);
+}
+
+// Terms of the source whose required translation the target does not contain
+export function checkGlossary(source: string, target: string, terms: GlossaryTerm[], locale: string): ValidationIssue[] {
+  if (target === '') return [];
+  const issues: ValidationIssue[] = [];
+  new Set(findTerms(source, terms).map(found => found.term)).forEach(term => {
+    const required = termTarget(term, locale);
+    if (!required) return;
+    const present = term.caseSensitive ? target.includes(required) : target.toLowerCase().includes(required.toLowerCase());
+    if (present) return;
+    issues.push({
+      severity: 'warning',
+      message: term.doNotTranslate ? `Glossary: keep "${required}" untranslated` : `Glossary: "${term.source.trim()}" must be translated as "${required}"`,
+    });
+  });
+  return issues;
+}
+
+// Prompt lines for the terms that occur in the texts being translated
+export function glossaryPrompt(texts: string[], terms: GlossaryTerm[], locale: string) {
+  const relevant = new Set(texts.flatMap(text => findTerms(text, terms).map(found => found.term)));
+  const lines = [...relevant].flatMap(term => {
+    const required = termTarget(term, locale);
+    if (!required) return [];
+    return [term.doNotTranslate ? `"${required}" stays untranslated` : `"${term.source.trim()}" is translated as "${required}"`];
+  });
+  return lines.length > 0 ? `Follow this glossary exactly: ${lines.join('; ')}.` : '';
+}
@@ -0,0 +1,276 @@
+import { IcuNode, IcuPart } from "./types";
+
+const SIMPLE_FORMATS = ['number', 'date', 'time', 'spellout', 'ordinal', 'duration'];
+const CHOICE_FORMATS = ['plural', 'selectordinal', 'select'];
+
+/**
+ * Parses an ICU MessageFormat string, following ICU's apostrophe quoting: `''` is a literal quote and
+ * a quote before `{`, `}` (or `#` inside a plural) starts a quoted literal. Throws on invalid syntax.
+ */
+export function parseIcu(message: string): IcuNode[] {
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`${reason} at position ${pos}`);
+  };
+  const skipSpace = () => {
+    while (pos < message.length && /\s/.test(message[pos])) pos++;
+  };
+  const identifier = () => {
+    const match = /^[^\s{}#,'=]+/.exec(message.substring(pos));
+    if (!match) fail('Expected a name');
+    pos += match![0].length;
+    return match![0];
+  };
+  const expect = (char: string) => {
+    if (message[pos] !== char) fail(`Expected "${char}"`);
+    pos++;
+  };
+
+  const parseMessage = (inPlural: boolean, nested: boolean): IcuNode[] => {
+    const nodes: IcuNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+    while (pos < message.length) {
+      const char = message[pos];
+      if (char === "'") {
+        const next = message[pos + 1];
+        if (next === "'") {
+          text += "'";
+          pos += 2;
+        } else if (next === '{' || next === '}' || (inPlural && next === '#') || next === '|') {
+          // quoted literal runs to the next lone apostrophe, or to the end
+          pos++;
+          while (pos < message.length) {
+            if (message[pos] === "'" && message[pos + 1] === "'") {
+              text += "'";
+              pos += 2;
+            } else if (message[pos] === "'") {
+              pos++;
+              break;
+            } else {
+              text += message[pos++];
+            }
+          }
+        } else {
+          text += char;
+          pos++;
+        }
+      } else if (char === '{') {
+        flush();
+        nodes.push(parseArgument());
+      } else if (char === '}') {
+        if (!nested) fail('Unmatched "}"');
+        break;
+      } else if (char === '#' && inPlural) {
+        flush();
+        nodes.push({ type: 'pound' });
+        pos++;
+      } else {
+        text += char;
+        pos++;
+      }
+    }
+    flush();
+    return nodes;
+  };
+
+  const parseArgument = (): IcuNode => {
+    expect('{');
+    skipSpace();
+    const name = identifier();
+    skipSpace();
+    if (message[pos] === '}') {
+      pos++;
+      return { type: 'argument', name };
+    }
+    expect(',');
+    skipSpace();
+    const format = identifier();
+    skipSpace();
+
+    if (SIMPLE_FORMATS.includes(format)) {
+      if (message[pos] === '}') {
+        pos++;
+        return { type: 'argument', name, format };
+      }
+      expect(',');
+      const start = pos;
+      while (pos < message.length && message[pos] !== '}') pos++;
+      expect('}');
+      return { type: 'argument', name, format, style: message.substring(start, pos - 1).trim() };
+    }
+    if (!CHOICE_FORMATS.includes(format)) fail(`Unknown argument type "${format}"`);
+
+    expect(',');
+    skipSpace();
+    let offset: number | undefined;
+    if (format !== 'select' && message.startsWith('offset:', pos)) {
+      pos += 'offset:'.length;
+      skipSpace();
+      const match = /^\d+/.exec(message.substring(pos));
+      if (!match) fail('Expected an offset');
+      offset = Number(match![0]);
+      pos += match![0].length;
+      skipSpace();
+    }
+
+    const options: Record<string, IcuNode[]> = {};
+    while (message[pos] !== '}') {
+      if (pos >= message.length) fail(`Unclosed "${name}" argument`);
+      const selector = message[pos] === '=' && format !== 'select' ? '=' + (pos++, identifier()) : identifier();
+      if (selector in options) fail(`Duplicate option "${selector}"`);
+      skipSpace();
+      expect('{');
+      options[selector] = parseMessage(format !== 'select', true);
+      expect('}');
+      skipSpace();
+    }
+    pos++;
+    if (!('other' in options)) fail(`"${name}" has no "other" option`);
+    return { type: format as 'plural' | 'selectordinal' | 'select', name, offset, options };
+  };
+
+  return parseMessage(false, false);
+}
+
+// Whether the text uses ICU arguments at all; plain strings parse as a single text node
+export function hasIcuArguments(nodes: IcuNode[]) {
+  return nodes.some(node => node.type !== 'text');
+}
+
+// Every argument in the message with its format, including those nested in plural and select options
+export function icuArguments(nodes: IcuNode[], found = new Map<string, string>()) {
+  nodes.forEach(node => {
+    if (node.type === 'argument') {
+      if (!found.get(node.name)) found.set(node.name, node.format || '');
+    } else if (node.type === 'plural' || node.type === 'selectordinal' || node.type === 'select') {
+      found.set(node.name, node.type);
+      Object.values(node.options).forEach(option => icuArguments(option, found));
+    }
+  });
+  return found;
+}
+
+const PLURAL_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+// CLDR plural categories a locale distinguishes, e.g. only `other` for ko and `one`, `few`, `many`, `other` for pl
+export function pluralCategories(locale: string, ordinal = false): string[] {
+  const type = ordinal ? 'ordinal' : 'cardinal';
+  const tag = locale.replace(/_/g, '-');
+  for (const candidate of [tag, tag.split('-')[0]]) {
+    try {
+      const categories = new Intl.PluralRules(candidate || 'en', { type }).resolvedOptions().pluralCategories;
+      return [...categories].sort((a, b) => PLURAL_ORDER.indexOf(a) - PLURAL_ORDER.indexOf(b));
+    } catch { }
+  }
+  return ['other'];
+}
+
+// Quotes what would otherwise be read as syntax; other apostrophes are left alone, as ICU does
+function printText(text: string, inPlural: boolean) {
+  return text
+    .replace(inPlural ? /'(?=[{}#|']|$)/g : /'(?=[{}|']|$)/g, "''")
+    .replace(inPlural ? /[{}#]+/g : /[{}]+/g, run => `'${run}'`);
+}
+
+function choicePart(node: Extract<IcuNode, { options: unknown }>): Exclude<IcuPart, { type: 'text' }> {
+  return {
+    type: node.type,
+    name: node.name,
+    offset: node.offset,
+    options: Object.entries(node.options).map(([key, option]) => ({ key, text: printIcu(option, node.type !== 'select') })),
+  };
+}
+
+function printChoice(part: Exclude<IcuPart, { type: 'text' }>) {
+  const offset = part.offset !== undefined ? `offset:${part.offset} ` : '';
+  return `{${part.name}, ${part.type}, ${offset}${part.options.map(option => `${option.key} {${option.text}}`).join(' ')}}`;
+}
+
+// Writes parsed nodes back as an ICU message
+export function printIcu(nodes: IcuNode[], inPlural = false): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return printText(node.value, inPlural);
+      case 'pound':
+        return '#';
+      case 'argument':
+        return `{${[node.name, node.format, node.style].filter(item => item !== undefined).join(', ')}}`;
+      default:
+        return printChoice(choicePart(node));
+    }
+  }).join('');
+}
+
+// Splits a message into text and top-level choices, always starting and ending with a (possibly empty) text part
+export function icuParts(nodes: IcuNode[]): IcuPart[] {
+  const parts: IcuPart[] = [];
+  let run: IcuNode[] = [];
+  nodes.forEach(node => {
+    if (node.type === 'plural' || node.type === 'selectordinal' || node.type === 'select') {
+      parts.push({ type: 'text', text: printIcu(run) }, choicePart(node));
+      run = [];
+    } else {
+      run.push(node);
+    }
+  });
+  parts.push({ type: 'text', text: printIcu(run) });
+  return parts;
+}
+
+export function joinIcuParts(parts: IcuPart[]) {
+  return parts.map(part => part.type === 'text' ? part.text : printChoice(part)).join('');
+}
+
+const CHOICE = /,\s*(plural|selectordinal|select)\s*,/;
+
+/**
+ * Lays out a translation for the plural editor: the target's own parts when it has the same choices as the source,
+ * otherwise empty ones shaped like the source. Plural options follow the target locale's categories, keeping any
+ * exact `=N` options. Returns null when the source has no top-level choice or the target cannot be laid out that way.
+ */
+export function icuEditorParts(source: string, target: string, locale: string): IcuPart[] | null {
+  if (!CHOICE.test(source)) return null;
+  let sourceParts: IcuPart[];
+  let targetParts: IcuPart[] | null = null;
+  try {
+    sourceParts = icuParts(parseIcu(source));
+    if (target !== '') targetParts = icuParts(parseIcu(target));
+  } catch {
+    return null;
+  }
+  if (sourceParts.length === 1) return null;
+  const shape = (parts: IcuPart[]) => parts.map(part => part.type === 'text' ? '' : `${part.type}:${part.name}`).join();
+  if (targetParts && shape(targetParts) !== shape(sourceParts)) return null;
+
+  return sourceParts.map((sourcePart, i) => {
+    const targetPart = targetParts?.[i];
+    if (sourcePart.type === 'text' || targetPart?.type === 'text') return { type: 'text', text: targetPart?.type === 'text' ? targetPart.text : '' };
+    const sourceKeys = sourcePart.options.map(option => option.key);
+    const targetKeys = targetPart?.options.map(option => option.key) || [];
+    const keys = sourcePart.type === 'select'
+      ? [...new Set([...sourceKeys, ...targetKeys])]
+      : [...new Set([...targetKeys, ...sourceKeys].filter(key => key.startsWith('=')))].concat(pluralCategories(locale, sourcePart.type === 'selectordinal'));
+    return {
+      ...sourcePart,
+      offset: targetPart ? targetPart.offset : sourcePart.offset,
+      options: keys.map(key => ({ key, text: targetPart?.options.find(option => option.key === key)?.text || '' })),
+    };
+  });
+}
+
+// Prompt rules for messages with plural or select arguments, naming the categories the target locale needs
+export function icuPromptRules(messages: string[], locale: string) {
+  const kinds = new Set(messages.flatMap(message => [...message.matchAll(new RegExp(CHOICE, 'g'))].map(match => match[1])));
+  if (kinds.size === 0) return '';
+  const rules = ['Keep ICU MessageFormat syntax intact: translate only the text inside the options, never argument names, option keys or "#".'];
+  if (kinds.has('plural')) rules.push(`Every plural argument must have exactly these ${locale} categories: ${pluralCategories(locale).join(', ')}, plus any "=N" options of the source.`);
+  if (kinds.has('selectordinal')) rules.push(`Every selectordinal argument must have exactly these ${locale} categories: ${pluralCategories(locale, true).join(', ')}, plus any "=N" options of the source.`);
+  if (kinds.has('select')) rules.push('Every select argument keeps all options of the source.');
+  return rules.join(' ');
+}
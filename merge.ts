@@ -0,0 +1,72 @@
+import { MergeConflict, Project, RemoteFile, ValueType } from "./types";
+import { formatForPath } from "./formats";
+import { getLocaleValue, isModified, parseTypedValue, setLocaleValue, stringifyValue } from "./utils";
+
+export const conflictId = (conflict: { locale: string; key: string }) => `${conflict.locale}:${conflict.key}`;
+
+// Per-key three-way merge: a side that still has the base value takes the other side's; null when both changed it differently
+export function mergeValue(base: ValueType | undefined, remote: ValueType | undefined, local: ValueType): { value: ValueType | undefined } | null {
+  if (local === base || local === remote) return { value: remote };
+  if (remote === base) return { value: local };
+  return null;
+}
+
+function remoteTargets(project: Project, remoteFiles: Record<string, RemoteFile>) {
+  return project.config.targets
+    .filter(t => t.path in remoteFiles)
+    .map(t => ({ ...t, data: formatForPath(t.path).parse(remoteFiles[t.path].text, { locale: t.locale }) }));
+}
+
+// Keys changed both locally and in the remote files since they were fetched
+export function findConflicts(project: Project, remoteFiles: Record<string, RemoteFile>): MergeConflict[] {
+  const conflicts: MergeConflict[] = [];
+  remoteTargets(project, remoteFiles).forEach(({ locale, data }) => {
+    const base = project.originalTargetData[locale] || {};
+    project.rows.forEach(r => {
+      if (!isModified(r, locale)) return;
+      const local = parseTypedValue(getLocaleValue(r, locale).targetValue, r.valueType);
+      if (local === undefined || mergeValue(base[r.key], data[r.key], local)) return;
+      conflicts.push({ locale, key: r.key, base: base[r.key], remote: data[r.key], local });
+    });
+  });
+  return conflicts;
+}
+
+/**
+ * Moves the project onto the remote files, as if they had been fetched before our edits were made.
+ * Rows we did not touch take the remote value; conflicting rows keep ours only when `keepLocal` says so.
+ */
+export function rebaseOnRemote(project: Project, remoteFiles: Record<string, RemoteFile>, keepLocal: Record<string, boolean> = {}): Project {
+  const rebased = remoteTargets(project, remoteFiles);
+  let rows = project.rows;
+  rebased.forEach(({ locale, path, data }) => {
+    const base = project.originalTargetData[locale] || {};
+    rows = rows.map(r => {
+      if (!(r.key in data)) {
+        if (!(r.key in base)) return r;
+        // Deleted on the remote: the row goes back to untranslated, as a fetch would leave it, unless we keep our edit
+        if (isModified(r, locale) && keepLocal[conflictId({ locale, key: r.key })]) return setLocaleValue(r, locale, { originalTargetValue: '' });
+        const untranslated = formatForPath(path).untranslatedAsEmpty ? '' : r.sourceValue;
+        return setLocaleValue(r, locale, { targetValue: untranslated, originalTargetValue: untranslated });
+      }
+      const remote = stringifyValue(data[r.key]);
+      const value = getLocaleValue(r, locale);
+      if (!isModified(r, locale)) return setLocaleValue(r, locale, { targetValue: remote, originalTargetValue: remote });
+      const local = parseTypedValue(value.targetValue, r.valueType);
+      const merged = local !== undefined ? mergeValue(base[r.key], data[r.key], local) : null;
+      if (merged) return setLocaleValue(r, locale, { targetValue: merged.value !== undefined ? stringifyValue(merged.value) : value.targetValue, originalTargetValue: remote });
+      return setLocaleValue(r, locale, {
+        targetValue: keepLocal[conflictId({ locale, key: r.key })] ? value.targetValue : remote,
+        originalTargetValue: remote,
+      });
+    });
+  });
+
+  return {
+    ...project,
+    rows,
+    originalTargetData: { ...project.originalTargetData, ...Object.fromEntries(rebased.map(t => [t.locale, t.data])) },
+    originalTargetRaw: { ...project.originalTargetRaw, ...Object.fromEntries(rebased.map(t => [t.locale, remoteFiles[t.path].text])) },
+    targetShas: { ...project.targetShas, ...Object.fromEntries(rebased.map(t => [t.locale, remoteFiles[t.path].sha])) },
+  };
+}
@@ -0,0 +1,103 @@
+type ReaderState = 'start' | 'key-wait' | 'key' | 'colon' | 'value-wait' | 'value' | 'skip' | 'done';
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+/**
+ * Reads a streamed JSON object of strings piece by piece, without parsing what came before again. Each call takes
+ * the next piece of text and returns the string values it changed, unfinished ones included. Text before the
+ * object (e.g. a code fence) is skipped, and so are values that are not strings.
+ */
+export function partialJsonReader() {
+  let state: ReaderState = 'start';
+  let key = '';
+  let value = '';
+  // the escape sequence being read, from its backslash on
+  let escape = '';
+  // nesting and string state of a skipped value
+  let depth = 0;
+  let inString = false;
+  let skipEscape = false;
+
+  // Takes one character of a string and returns the text it stands for, empty inside an escape sequence
+  const readChar = (char: string) => {
+    if (escape) {
+      escape += char;
+      if (escape[1] !== 'u') {
+        const decoded = ESCAPES[char] ?? char;
+        escape = '';
+        return decoded;
+      }
+      if (escape.length < 6) return '';
+      const decoded = String.fromCharCode(parseInt(escape.substring(2), 16) || 0xfffd);
+      escape = '';
+      return decoded;
+    }
+    if (char === '\\') {
+      escape = char;
+      return '';
+    }
+    return char;
+  };
+
+  return (text: string) => {
+    const changed: Record<string, string> = {};
+    for (const char of text) {
+      switch (state) {
+        case 'start':
+          if (char === '{') state = 'key-wait';
+          break;
+        case 'key-wait':
+          if (char === '"') {
+            state = 'key';
+            key = '';
+          } else if (char === '}') {
+            state = 'done';
+          }
+          break;
+        case 'key':
+          if (char === '"' && !escape) state = 'colon';
+          else key += readChar(char);
+          break;
+        case 'colon':
+          if (char === ':') state = 'value-wait';
+          break;
+        case 'value-wait':
+          if (char === '"') {
+            state = 'value';
+            value = '';
+            changed[key] = value;
+          } else if (!/\s/.test(char)) {
+            state = 'skip';
+            depth = char === '{' || char === '[' ? 1 : 0;
+            inString = false;
+          }
+          break;
+        case 'value':
+          if (char === '"' && !escape) {
+            state = 'key-wait';
+          } else {
+            value += readChar(char);
+            changed[key] = value;
+          }
+          break;
+        case 'skip':
+          if (inString) {
+            if (skipEscape) skipEscape = false;
+            else if (char === '\\') skipEscape = true;
+            else if (char === '"') inString = false;
+          } else if (char === '"') {
+            inString = true;
+          } else if (char === '{' || char === '[') {
+            depth++;
+          } else if (char === '}' || char === ']') {
+            if (depth === 0) state = 'done';
+            else depth--;
+          } else if (char === ',' && depth === 0) {
+            state = 'key-wait';
+          }
+          break;
+      }
+    }
+    return changed;
+  };
+}
@@ -0,0 +1,119 @@
+import { GlossaryTerm, Project, PromptSettings, TranslationRow } from "./types";
+import { getLocaleValue, isModified, parseKeyPath } from "./utils";
+import { icuPromptRules } from "./icu";
+import { glossaryPrompt } from "./glossary";
+import { splitKeyOf } from "./chunking";
+
+export const DEFAULT_PROMPT_TEMPLATE = `Translate the following {source} strings to {target}.
+Provide the translations in a JSON object where keys match the input keys.
+Be concise and context-aware.`;
+
+export const defaultPromptSettings: PromptSettings = { template: DEFAULT_PROMPT_TEMPLATE, instructions: '', examples: 5, siblings: 4 };
+
+export function promptSettings(project: Project): PromptSettings {
+  return { ...defaultPromptSettings, ...project.prompt };
+}
+
+// Path of the object a key lives in, e.g. `menu.file` for `'menu'.'file'.'open'`
+export function keyNamespace(key: string) {
+  return parseKeyPath(key).slice(0, -1).join('.');
+}
+
+const keyName = (key: string) => String(parseKeyPath(key).slice(-1)[0]);
+
+// Translations a reviewer has seen: fetched or pushed, for a source that has not changed since
+function isApproved(row: TranslationRow, locale: string) {
+  const value = getLocaleValue(row, locale);
+  return (row.valueType || 'string') === 'string' && value.targetValue !== '' && value.targetValue !== row.sourceValue
+    && row.sourceValue === row.pastSourceValue && !isModified(row, locale);
+}
+
+/**
+ * Builds the prompt for one chunk of rows. Each input carries its namespace, notes from the file and the nearest
+ * strings of the same namespace with their translations; approved rows, those of the chunk's namespaces first,
+ * are given as examples of how the project already translates.
+ */
+export function buildSuggestionPrompt(project: Project, locale: string, chunk: TranslationRow[], glossary: GlossaryTerm[] = []) {
+  const settings = promptSettings(project);
+  const sourceLocale = project.config.sourceLocale || 'Source';
+  const inChunk = new Set(chunk.map(r => splitKeyOf(r.key)));
+
+  const namespaces = new Map<string, TranslationRow[]>();
+  project.rows.forEach(r => {
+    if ((r.valueType || 'string') !== 'string') return;
+    const namespace = keyNamespace(r.key);
+    namespaces.set(namespace, [...(namespaces.get(namespace) || []), r]);
+  });
+
+  const items = chunk.map(r => {
+    const namespace = keyNamespace(r.key);
+    const group = namespaces.get(namespace) || [];
+    // a piece of a split string stands where its whole string does
+    const index = group.findIndex(other => other.key === splitKeyOf(r.key));
+    const siblings = group
+      .map((other, i) => ({ other, distance: Math.abs(i - index) }))
+      .filter((_, i) => i !== index)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, settings.siblings)
+      .map(({ other }) => other)
+      .sort((a, b) => group.indexOf(a) - group.indexOf(b))
+      .map(other => {
+        const target = getLocaleValue(other, locale).targetValue;
+        return { key: keyName(other.key), source: other.sourceValue, ...(target && target !== other.sourceValue ? { target } : {}) };
+      });
+    const notes = [...(r.meta?.context ? [`context: ${r.meta.context}`] : []), ...(r.meta?.comments || [])];
+    return {
+      key: r.key,
+      value: r.sourceValue,
+      ...(namespace ? { namespace } : {}),
+      ...(notes.length > 0 ? { notes } : {}),
+      ...(siblings.length > 0 ? { siblings } : {}),
+    };
+  });
+
+  const chunkNamespaces = new Set(chunk.map(r => keyNamespace(r.key)));
+  const examples = project.rows
+    .filter(r => !inChunk.has(r.key) && isApproved(r, locale))
+    .sort((a, b) => Number(chunkNamespaces.has(keyNamespace(b.key))) - Number(chunkNamespaces.has(keyNamespace(a.key))))
+    .slice(0, settings.examples)
+    .map(r => ({ source: r.sourceValue, target: getLocaleValue(r, locale).targetValue }));
+
+  const sources = chunk.map(r => r.sourceValue);
+  const rules = [icuPromptRules(sources, locale), glossaryPrompt(sources, glossary, locale)].filter(rule => rule !== '');
+  return [
+    settings.template.replaceAll('{source}', sourceLocale).replaceAll('{target}', locale || 'Target'),
+    ...rules,
+    `Inputs may carry their namespace, notes and neighboring strings of the same namespace with their current translations. Use them only as context and translate each input's "value".`,
+    ...(examples.length > 0 ? [`Examples of how this project already translates: ${JSON.stringify(examples)}`] : []),
+    `You SHOULD NOT include any other text outside the JSON object.`,
+    ...(settings.instructions ? [`Additional Instructions: [${settings.instructions}]`] : []),
+    `Input: ${JSON.stringify(items)}`,
+  ].join('\n');
+}
+
+// Asks for a verdict on each row's current translation, with the same context as suggestions
+export function buildReviewPrompt(project: Project, locale: string, chunk: TranslationRow[], glossary: GlossaryTerm[] = []) {
+  const settings = promptSettings(project);
+  const sources = chunk.map(r => r.sourceValue);
+  const rules = [icuPromptRules(sources, locale), glossaryPrompt(sources, glossary, locale)].filter(rule => rule !== '');
+  const items = chunk.map(r => {
+    const namespace = keyNamespace(r.key);
+    const notes = [...(r.meta?.context ? [`context: ${r.meta.context}`] : []), ...(r.meta?.comments || [])];
+    return {
+      key: r.key,
+      source: r.sourceValue,
+      translation: getLocaleValue(r, locale).targetValue,
+      ...(namespace ? { namespace } : {}),
+      ...(notes.length > 0 ? { notes } : {}),
+    };
+  });
+  return [
+    `Review these ${project.config.sourceLocale || 'source'} to ${locale || 'target'} translations as a professional translator.`,
+    `For every input key answer with an object of "verdict" ("ok" or "issue"), "severity" ("minor", "major" or "critical"; empty when ok), a short "explanation" in English, and "correction", the full corrected translation (empty when ok).`,
+    `Critical means wrong meaning, broken placeholders or untranslated text; major means grammar or terminology errors; minor means style.`,
+    ...rules,
+    `Provide the answers in a JSON object where keys match the input keys. You SHOULD NOT include any other text outside the JSON object.`,
+    ...(settings.instructions ? [`Additional Instructions: [${settings.instructions}]`] : []),
+    `Input: ${JSON.stringify(items)}`,
+  ].join('\n');
+}
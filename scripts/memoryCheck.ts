@@ -0,0 +1,86 @@
+// Fetches and pushes translations against the in-memory repository, the way the app does, and checks the result.
+// Run with `npm run check:memory`.
+import assert from 'node:assert/strict';
+import { GitHubConfig, Project } from '../types';
+import { MemoryRepositoryService } from '../services/memoryService';
+import { loadRepositoryFiles } from '../services/repositoryService';
+import { buildFileContent, describeChanges, isModified, mergeFetchedRows, proposalBranchName, setLocaleValue } from '../utils';
+
+const config: GitHubConfig = {
+  provider: 'memory',
+  owner: 'acme',
+  repo: 'app',
+  branch: 'main',
+  sourceLocale: 'en',
+  sourcePath: 'locales/en.json',
+  targets: [
+    { locale: 'de', path: 'locales/de.json' },
+    { locale: 'fr', path: 'locales/fr.json' },
+  ],
+  pushMode: 'pull-request',
+};
+
+const sourceFile = JSON.stringify({ greeting: 'Hello', farewell: 'Bye', menu: { open: 'Open' } }, null, 2) + '\n';
+const germanFile = JSON.stringify({ greeting: 'Hallo', farewell: '' }, null, 2) + '\n';
+
+async function main() {
+  MemoryRepositoryService.reset();
+  MemoryRepositoryService.seed(config.owner, config.repo, config.branch, { [config.sourcePath]: sourceFile, 'locales/de.json': germanFile });
+  const service = new MemoryRepositoryService(config);
+
+  // fetch
+  const loaded = await loadRepositoryFiles(service, config);
+  assert.deepEqual(loaded.missing, ['fr']);
+  let project = {
+    id: 'check',
+    name: 'check',
+    config,
+    rows: mergeFetchedRows([], loaded, config.targets, config.sourcePath),
+    lastUpdated: 0,
+    originalTargetData: loaded.targets,
+    originalTargetRaw: loaded.rawTargets,
+    originalSourceRaw: loaded.sourceRaw,
+    targetShas: loaded.shas,
+  } as Project;
+  assert.equal(project.rows.length, 3);
+
+  // edit one German and one French string
+  project = {
+    ...project,
+    rows: project.rows.map(row => row.key === "'greeting'"
+      ? setLocaleValue(setLocaleValue(row, 'de', { targetValue: 'Guten Tag' }), 'fr', { targetValue: 'Bonjour' })
+      : row),
+  };
+
+  // push as a pull request, twice
+  const branch = proposalBranchName(config);
+  const changed = config.targets.filter(target => project.rows.some(row => isModified(row, target.locale)));
+  const changedKeys = Object.fromEntries(changed.map(target => [target.locale, project.rows.filter(row => isModified(row, target.locale)).map(row => row.key)]));
+  await service.ensureBranch(branch);
+  await service.commitFiles(changed.map(target => ({ path: target.path, content: buildFileContent(project, [target]) })), 'Update translations', branch);
+  const first = await service.openPullRequest(branch, 'Update translations', describeChanges('Update translations', changedKeys));
+  const body = MemoryRepositoryService.inspect(config.owner, config.repo)!.pullRequests[0].body;
+  const second = await service.openPullRequest(branch, 'Update translations', describeChanges('Update translations', changedKeys));
+  assert.equal(first.created, true);
+  assert.equal(second.created, false);
+  assert.equal(MemoryRepositoryService.inspect(config.owner, config.repo)!.pullRequests[0].body, body);
+
+  // fetch the proposal branch back: only the edited strings changed, and the base branch is untouched
+  const pushed = await loadRepositoryFiles(new MemoryRepositoryService({ ...config, branch }), { ...config, branch });
+  assert.deepEqual(pushed.targets.de, { "'greeting'": 'Guten Tag', "'farewell'": '' });
+  assert.deepEqual(pushed.targets.fr, { "'greeting'": 'Bonjour' });
+  assert.deepEqual(pushed.missing, []);
+  assert.equal((await service.getFile('locales/de.json')).text, germanFile);
+  await assert.rejects(service.getFile('locales/fr.json'), { status: 404 });
+
+  // fetching again reads the targets from the proposal branch, so the next push sees no remote change
+  const refetched = await loadRepositoryFiles(service, config, config.targets, branch);
+  for (const target of config.targets) assert.equal(refetched.shas[target.locale], (await service.getFile(target.path, branch)).sha);
+
+  console.log('Memory repository check passed');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,115 @@
+import { AiConfig, AiProvider, AiProviderKind, AiReview, GlobalSettings, ReviewSeverity, TokenBudget } from "../types";
+import { GeminiService } from "./geminiService";
+import { OpenAiCompatibleService } from "./openaiService";
+import { AnthropicService } from "./anthropicService";
+import { partialJsonReader } from "../partialJson";
+
+// Display names and suggested models; OpenAI compatible servers often run locally and need no key
+export const aiProviders: Record<AiProviderKind, { label: string; models: string[]; keyRequired: boolean; customBaseUrl: boolean }> = {
+  gemini: { label: 'Gemini', models: ['gemini-3-flash-preview', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.5-pro', 'gemma-3-27b-it'], keyRequired: true, customBaseUrl: false },
+  openai: { label: 'OpenAI Compatible', models: ['gpt-4.1-mini', 'gpt-4.1', 'gpt-4o-mini', 'llama3.1', 'qwen2.5'], keyRequired: false, customBaseUrl: true },
+  anthropic: { label: 'Anthropic', models: ['claude-sonnet-4-5', 'claude-haiku-4-5', 'claude-opus-4-1'], keyRequired: true, customBaseUrl: false },
+};
+
+// Limits by model name prefix, most specific first; unknown models are assumed to be small local ones
+const MODEL_LIMITS: [string, TokenBudget][] = [
+  ['gemini-2.5', { input: 1048576, output: 65536 }],
+  ['gemini-3', { input: 1048576, output: 65536 }],
+  ['gemini', { input: 1048576, output: 8192 }],
+  ['gemma', { input: 131072, output: 8192 }],
+  ['gpt-4.1', { input: 1047576, output: 32768 }],
+  ['gpt-4o', { input: 128000, output: 16384 }],
+  ['gpt-5', { input: 272000, output: 128000 }],
+  ['claude', { input: 200000, output: 8192 }],
+];
+const DEFAULT_LIMITS: TokenBudget = { input: 8192, output: 2048 };
+
+export function tokenBudget(config: AiConfig): TokenBudget {
+  const known = MODEL_LIMITS.find(([prefix]) => config.model.toLowerCase().startsWith(prefix))?.[1] || DEFAULT_LIMITS;
+  return { input: config.inputTokens || known.input, output: config.outputTokens || known.output };
+}
+
+export function aiApiKey(settings: GlobalSettings, provider: AiProviderKind) {
+  switch (provider) {
+    case 'openai':
+      return settings.openaiApiKey || '';
+    case 'anthropic':
+      return settings.anthropicApiKey || '';
+    default:
+      return settings.geminiApiKey;
+  }
+}
+
+export function createAiProvider(config: AiConfig, apiKey: string): AiProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiCompatibleService(config, apiKey);
+    case 'anthropic':
+      return new AnthropicService(config, apiKey);
+    default:
+      return new GeminiService(config, apiKey);
+  }
+}
+
+// Models without a JSON mode may still wrap the object in a code fence or a sentence
+function parseJsonAnswer(text: string) {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return JSON.parse(start >= 0 && end > start ? text.substring(start, end + 1) : text);
+}
+
+// Sends a prompt from `buildSuggestionPrompt` and reads the translations back by key; an answer that is not
+// a JSON object throws an error marked `retryable`, since asking again usually fixes it. With `onPartial` the
+// answer is streamed, and translations are passed to it as far as they have arrived
+export async function getTranslationSuggestions(provider: AiProvider, prompt: string, keys: string[], signal?: AbortSignal, onPartial?: (suggestions: Record<string, string>) => void): Promise<Record<string, string>> {
+  const read = onPartial && partialJsonReader();
+  const text = await provider.generate(prompt, { keys }, signal, read && (piece => {
+    const changed = read(piece);
+    if (Object.keys(changed).length > 0) onPartial!(changed);
+  }));
+  let answer: any;
+  try {
+    answer = parseJsonAnswer(text);
+  } catch (e) {
+    console.error("Response text:", text);
+    throw Object.assign(new Error(`The model did not answer with JSON: ${(e as Error).message}`), { retryable: true });
+  }
+  if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+    throw Object.assign(new Error("The model did not answer with a JSON object"), { retryable: true });
+  }
+  const suggestions: Record<string, string> = {};
+  keys.forEach(key => {
+    if (typeof answer[key] === 'string') suggestions[key] = answer[key];
+  });
+  return suggestions;
+}
+
+const SEVERITIES: ReviewSeverity[] = ['minor', 'major', 'critical'];
+
+// Sends a prompt from `buildReviewPrompt`; answers that are not a verdict are left out, and an answer that is not
+// a JSON object throws an error marked `retryable` like a suggestion does
+export async function getReviews(provider: AiProvider, prompt: string, keys: string[], signal?: AbortSignal) {
+  const text = await provider.generate(prompt, { keys, fields: ['verdict', 'severity', 'explanation', 'correction'] }, signal);
+  let answer: any;
+  try {
+    answer = parseJsonAnswer(text);
+  } catch (e) {
+    console.error("Response text:", text);
+    throw Object.assign(new Error(`The model did not answer with JSON: ${(e as Error).message}`), { retryable: true });
+  }
+  if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+    throw Object.assign(new Error("The model did not answer with a JSON object"), { retryable: true });
+  }
+  const reviews: Record<string, Omit<AiReview, 'target'>> = {};
+  keys.forEach(key => {
+    const review = answer[key];
+    if (!review || (review.verdict !== 'ok' && review.verdict !== 'issue')) return;
+    reviews[key] = {
+      verdict: review.verdict,
+      ...(review.verdict === 'issue' ? { severity: SEVERITIES.includes(review.severity) ? review.severity : 'minor' } : {}),
+      explanation: String(review.explanation || ''),
+      ...(review.verdict === 'issue' && review.correction ? { correction: String(review.correction) } : {}),
+    };
+  });
+  return reviews;
+}
@@ -0,0 +1,50 @@
+import { AiConfig, AiProvider, AnswerShape } from "../types";
+import { eventData } from "./streaming";
+
+// Anthropic Messages API, called straight from the browser with the user's own key
+export class AnthropicService implements AiProvider {
+  private config: AiConfig;
+  private apiKey: string;
+
+  constructor(config: AiConfig, apiKey: string) {
+    this.config = config;
+    this.apiKey = apiKey;
+  }
+
+  async generate(prompt: string, _shape?: AnswerShape, signal?: AbortSignal, onText?: (text: string) => void) {
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        max_tokens: this.config.outputTokens || 8192,
+        messages: [{ role: 'user', content: prompt }],
+        ...(onText ? { stream: true } : {}),
+      }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw Object.assign(new Error(`Anthropic: ${error?.error?.message || response.statusText || response.status}`), { status: response.status });
+    }
+    if (onText) {
+      let text = '';
+      for await (const data of eventData(response)) {
+        const event = JSON.parse(data);
+        // an overloaded server reports it mid-stream, and is worth another try like a 529 response
+        if (event.type === 'error') throw Object.assign(new Error(`Anthropic: ${event.error?.message || event.error?.type}`), { status: event.error?.type === 'overloaded_error' ? 529 : undefined });
+        if (event.type !== 'content_block_delta' || event.delta?.type !== 'text_delta') continue;
+        text += event.delta.text;
+        onText(event.delta.text);
+      }
+      return text;
+    }
+    const result = await response.json();
+    return (result.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join('');
+  }
+}
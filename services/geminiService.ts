@@ -1,53 +1,54 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { GeminiModel } from "../types";
+import { AiConfig, AiProvider, AnswerShape } from "../types";
+
+export class GeminiService implements AiProvider {
+  private config: AiConfig;
+  private apiKey: string;
 
-export async function getTranslationSuggestions(
-  model: GeminiModel,
-  apiKey: string,
-  sourceLang: string,
-  targetLang: string,
-  texts: { key: string; value: string }[],
-  additionalIntstructions = ""
-) {
-  const ai = new GoogleGenAI({ apiKey: apiKey });
-  const isGemma = model.startsWith('gemma');
-  const isGemini = model.startsWith('gemini');
-  const schema = {
-    type: Type.OBJECT,
-    properties: texts.reduce((acc: any, item) => {
-      acc[item.key] = { type: Type.STRING };
-      return acc;
-    }, {}),
+  constructor(config: AiConfig, apiKey: string) {
+    this.config = config;
+    this.apiKey = apiKey;
   }
-  
-  try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: `Translate the following ${sourceLang} strings to ${targetLang}. 
-      Provide the translations in a JSON object where keys match the input keys. 
-      Be concise and context-aware.
-      You SHOULD NOT include any other text outside the JSON object.${
-      additionalIntstructions ? `\nAdditional Instructions: [${additionalIntstructions}]` : ""}${
-      isGemini ? "" : `\nOutput only JSON under this schema: ${JSON.stringify(schema)}`}
-      Input: ${JSON.stringify(texts)}`,
-      config: isGemini ? {
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      } : undefined,
-    });
 
-    console.log("Raw Gemini response:", response);
-    try {
-      if (isGemini) return JSON.parse(response.text);
-      else return JSON.parse(response.text.replaceAll("```json","").replaceAll("```",""));
-    } catch (e) {
-      console.error("Failed to parse Gemini response", e);
-      console.error("Response text:", response.text);
-      return {};
+  async generate(prompt: string, shape?: AnswerShape, signal?: AbortSignal, onText?: (text: string) => void) {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    // Gemma models reject a JSON mime type, so they get the schema as an instruction instead
+    const isGemini = this.config.model.startsWith('gemini');
+    const fieldSchema = shape?.fields && {
+      type: Type.OBJECT,
+      properties: shape.fields.reduce((acc: any, field) => {
+        acc[field] = { type: Type.STRING };
+        return acc;
+      }, {}),
+    };
+    const schema = shape && {
+      type: Type.OBJECT,
+      properties: shape.keys.reduce((acc: any, key) => {
+        acc[key] = fieldSchema || { type: Type.STRING };
+        return acc;
+      }, {}),
+    };
+
+    const request = {
+      model: this.config.model,
+      contents: schema && !isGemini ? `${prompt}\nOutput only JSON under this schema: ${JSON.stringify(schema)}` : prompt,
+      config: {
+        abortSignal: signal,
+        ...(schema && isGemini ? { responseMimeType: "application/json", responseSchema: schema } : {}),
+      },
+    };
+
+    if (onText) {
+      let text = '';
+      for await (const chunk of await ai.models.generateContentStream(request)) {
+        const piece = chunk.text || '';
+        text += piece;
+        if (piece) onText(piece);
+      }
+      return text;
     }
-  } catch (e) {
-    console.error("Failed to generate content", e);
-    return {};
+    const response = await ai.models.generateContent(request);
+    console.log("Raw Gemini response:", response);
+    return response.text || '';
   }
 }
@@ -0,0 +1,149 @@
+import { GitHubConfig, PullRequestInfo, RemoteFile, RepositoryProvider } from '../types';
+import { apiBaseUrl, bytesToBase64, bytesToText, gitBlobSha, pullRequestBody, textToBytes } from '@/utils';
+
+// Gitea (and Forgejo) REST API v1; multi-file commits need Gitea 1.20 or newer
+export class GiteaService implements RepositoryProvider {
+  private config: GitHubConfig;
+  private token: string | null;
+  private baseUrl: string;
+
+  constructor(config: GitHubConfig, token: string | null) {
+    this.config = config;
+    this.token = token || null;
+    this.baseUrl = apiBaseUrl(config, 'https://gitea.com/api/v1');
+  }
+
+  private get repository() {
+    return `${this.baseUrl}/repos/${encodeURIComponent(this.config.owner)}/${encodeURIComponent(this.config.repo)}`;
+  }
+
+  private async request(url: string, init: RequestInit = {}) {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...(this.token ? { Authorization: `token ${this.token}` } : {}),
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw Object.assign(new Error(`Gitea: ${error?.message || response.statusText || response.status}`), { status: response.status });
+    }
+    return response;
+  }
+
+  // Reads list pages until one comes back short, or `maxPages` were read
+  private async paginate<T>(url: string, maxPages = 20) {
+    const items: T[] = [];
+    for (let page = 1; page <= maxPages; page++) {
+      const batch: T[] = await (await this.request(`${url}${url.includes('?') ? '&' : '?'}limit=50&page=${page}`)).json();
+      items.push(...batch);
+      if (batch.length < 50) break;
+    }
+    return items;
+  }
+
+  async getFile(path: string, ref: string = this.config.branch): Promise<RemoteFile> {
+    let response: Response;
+    try {
+      response = await this.request(`${this.repository}/raw/${path.split('/').map(encodeURIComponent).join('/')}?ref=${encodeURIComponent(ref)}`);
+    } catch (err: any) {
+      throw Object.assign(new Error(`Failed to fetch ${path}: ${err.message}`), { status: err.status });
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return { text: bytesToText(bytes), sha: await gitBlobSha(bytes) };
+  }
+
+  async listBranches() {
+    const branches = await this.paginate<{ name: string }>(`${this.repository}/branches`);
+    return branches.map(b => b.name);
+  }
+
+  async listTree(ref: string = this.config.branch) {
+    const paths: string[] = [];
+    let truncated = true;
+    for (let page = 1; page <= 20; page++) {
+      const tree = await (await this.request(`${this.repository}/git/trees/${encodeURIComponent(ref)}?recursive=true&per_page=1000&page=${page}`)).json();
+      const entries: { path: string; type: string }[] = tree.tree || [];
+      paths.push(...entries.filter(entry => entry.type === 'blob').map(entry => entry.path));
+      if (!tree.truncated || entries.length === 0) {
+        truncated = false;
+        break;
+      }
+    }
+    return { paths, truncated };
+  }
+
+  async pushFile(content: string, path: string, message: string, branch: string = this.config.branch) {
+    const { shas } = await this.commitFiles([{ path, content }], message, branch);
+    return { sha: shas[path] };
+  }
+
+  // Updates need the current blob sha of each file, which also makes the commit fail if a file moved on meanwhile;
+  // files without one are created
+  async commitFiles(files: { path: string; content: string }[], message: string, branch: string = this.config.branch) {
+    const current: Record<string, string> = {};
+    for (const file of files) {
+      try {
+        const metadata = await (await this.request(`${this.repository}/contents/${file.path.split('/').map(encodeURIComponent).join('/')}?ref=${encodeURIComponent(branch)}`)).json();
+        if (!metadata || Array.isArray(metadata)) throw new Error(`${file.path} is a directory.`);
+        current[file.path] = metadata.sha;
+      } catch (err: any) {
+        if (err.status !== 404) throw err;
+      }
+    }
+    const response = await this.request(`${this.repository}/contents`, {
+      method: 'POST',
+      body: JSON.stringify({
+        branch,
+        message,
+        files: files.map(file => ({
+          operation: current[file.path] ? 'update' : 'create',
+          path: file.path,
+          content: bytesToBase64(textToBytes(file.content)),
+          sha: current[file.path],
+        })),
+      }),
+    });
+    const result = await response.json();
+
+    const shas: Record<string, string> = {};
+    for (const file of files) shas[file.path] = await gitBlobSha(textToBytes(file.content));
+    return { commit: result.commit?.sha as string, shas };
+  }
+
+  async ensureBranch(branch: string) {
+    try {
+      await this.request(`${this.repository}/branches/${encodeURIComponent(branch)}`);
+      return false;
+    } catch (err: any) {
+      if (err.status !== 404) throw err;
+    }
+    await this.request(`${this.repository}/branches`, {
+      method: 'POST',
+      body: JSON.stringify({ new_branch_name: branch, old_branch_name: this.config.branch }),
+    });
+    return true;
+  }
+
+  async openPullRequest(branch: string, title: string, body: string): Promise<PullRequestInfo> {
+    const open = await this.paginate<any>(`${this.repository}/pulls?state=open`);
+    const existing = open.find(pull => pull.head?.ref === branch && pull.base?.ref === this.config.branch);
+    if (existing) {
+      const updated = await (await this.request(`${this.repository}/pulls/${existing.number}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ body: pullRequestBody(existing.body, body) }),
+      })).json();
+      return { url: updated.html_url, number: updated.number, created: false };
+    }
+    const created = await (await this.request(`${this.repository}/pulls`, {
+      method: 'POST',
+      body: JSON.stringify({ head: branch, base: this.config.branch, title, body: pullRequestBody(undefined, body) }),
+    })).json();
+    return { url: created.html_url, number: created.number, created: true };
+  }
+
+  branchUrl(branch: string) {
+    return `${this.baseUrl.replace(/\/api\/v1$/, '')}/${this.config.owner}/${this.config.repo}/src/branch/${branch}`;
+  }
+}
@@ -1,19 +1,27 @@
 
 import { Octokit } from 'octokit';
-import { GitHubConfig } from '../types';
-import { bytesToBase64, textToBytes } from '@/utils';
+import { GitHubConfig, PullRequestInfo, RemoteFile, RepositoryProvider } from '../types';
+import { apiBaseUrl, bytesToBase64, bytesToText, gitBlobSha, pullRequestBody, textToBytes } from '@/utils';
 
-export class GitHubService {
+export class GitHubService implements RepositoryProvider {
   private config: GitHubConfig;
-  private token: string;
+  private token: string | null;
+  private baseUrl: string;
 
-  constructor(config: GitHubConfig, token: string) {
+  constructor(config: GitHubConfig, token: string | null) {
     this.config = config;
-    this.token = token;
+    this.token = token || null;
+    this.baseUrl = apiBaseUrl(config, 'https://api.github.com');
   }
 
-  private async fetchRaw(path: string) {
-    const url = `https://api.github.com/repos/${this.config.owner}/${this.config.repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(this.config.branch)}`;
+  // Reads without a token only work for public repositories, and share a small anonymous rate limit
+  private octokit() {
+    return new Octokit(this.token ? { auth: this.token, baseUrl: this.baseUrl } : { baseUrl: this.baseUrl });
+  }
+
+  // Reads a file as text along with the git blob sha of its exact bytes
+  async getFile(path: string, ref: string = this.config.branch): Promise<RemoteFile> {
+    const url = `${this.baseUrl}/repos/${this.config.owner}/${this.config.repo}/contents/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`;
     const response = await fetch(url, 
       this.token ? {
         headers: {
@@ -28,37 +36,54 @@ export class GitHubService {
     );
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch ${path}: ${response.statusText}`);
+      // GitHub answers 404 rather than 403 when a private repository is read without access
+      const hint = response.status === 404 && !this.token ? ' (private repositories need an access token)' : '';
+      throw Object.assign(new Error(`Failed to fetch ${path}: ${response.statusText || response.status}${hint}`), { status: response.status });
     }
 
-    return await response.json();
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return { text: bytesToText(bytes), sha: await gitBlobSha(bytes) };
   }
 
-  async loadFiles() {
-    const source = await this.fetchRaw(this.config.sourcePath);
-    const target = await this.fetchRaw(this.config.targetPath);
-    return { source, target };
+  async listBranches() {
+    const octokit = this.octokit();
+    const branches = await octokit.paginate('GET /repos/{owner}/{repo}/branches', { owner: this.config.owner, repo: this.config.repo, per_page: 100 });
+    return branches.map(b => b.name);
+  }
+
+  // Every file path on `ref`; GitHub truncates very large trees, which `truncated` reports
+  async listTree(ref: string = this.config.branch) {
+    const octokit = this.octokit();
+    const tree = await octokit.request('GET /repos/{owner}/{repo}/git/trees/{tree_sha}', {
+      owner: this.config.owner,
+      repo: this.config.repo,
+      tree_sha: ref,
+      recursive: '1',
+    });
+    return {
+      paths: tree.data.tree.filter(entry => entry.type === 'blob' && entry.path).map(entry => entry.path!),
+      truncated: tree.data.truncated,
+    };
   }
 
-  async pushFile(content: string, path: string, message: string) {
-    const octokit = new Octokit({ auth: this.token });
-    const metadataRes = await (async () => {
-      const owner = this.config.owner;
-      const repo = this.config.repo;
-      const ref = this.config.branch;
-      return octokit.request(`GET /repos/${owner}/${repo}/contents/${path}?=${ref}`, {
-        owner: owner,
-        repo: repo,
+  async pushFile(content: string, path: string, message: string, branch: string = this.config.branch) {
+    const octokit = this.octokit();
+    let sha: string | undefined;
+    try {
+      const metadataRes = await octokit.request('GET /repos/{owner}/{repo}/contents/{path}', {
+        owner: this.config.owner,
+        repo: this.config.repo,
         path: path,
-        ref: ref
-      })
-    })();
-    
-    if (!metadataRes.data) throw new Error("Could not find existing file for update.");
-    const metadata = metadataRes.data;
-    console.log("File metadata:", metadata);
-    
-    const updateUrl = `https://api.github.com/repos/${this.config.owner}/${this.config.repo}/contents/${encodeURIComponent(path)}`;
+        ref: branch,
+      });
+      if (!metadataRes.data || Array.isArray(metadataRes.data)) throw new Error(`${path} is a directory.`);
+      sha = metadataRes.data.sha;
+    } catch (err: any) {
+      // Without a sha the contents API creates the file
+      if (err.status !== 404) throw err;
+    }
+
+    const updateUrl = `${this.baseUrl}/repos/${this.config.owner}/${this.config.repo}/contents/${encodeURIComponent(path)}`;
     const response = await fetch(updateUrl, {
       method: 'PUT',
       headers: {
@@ -68,8 +93,8 @@ export class GitHubService {
       body: JSON.stringify({
         message: message,
         content: bytesToBase64(textToBytes(content)),
-        sha: metadata.sha,
-        branch: this.config.branch,
+        sha,
+        branch: branch,
       }),
     });
 
@@ -78,6 +103,76 @@ export class GitHubService {
       throw new Error(errorData.message || "Failed to push to GitHub");
     }
 
-    return await response.json();
+    const result = await response.json();
+    return { sha: result.content.sha as string };
+  }
+
+  /**
+   * Writes several files in one commit through the Git Data API: a tree on top of the branch head,
+   * a commit with that tree, then a fast-forward of the branch ref. Either every file lands or none does.
+   * Returns the new commit sha and the blob sha of each written path.
+   */
+  async commitFiles(files: { path: string; content: string }[], message: string, branch: string = this.config.branch) {
+    const octokit = this.octokit();
+    const { owner, repo } = this.config;
+    const ref = await octokit.request('GET /repos/{owner}/{repo}/git/ref/{ref}', { owner, repo, ref: `heads/${branch}` });
+    const parent = await octokit.request('GET /repos/{owner}/{repo}/git/commits/{commit_sha}', { owner, repo, commit_sha: ref.data.object.sha });
+    const tree = await octokit.request('POST /repos/{owner}/{repo}/git/trees', {
+      owner,
+      repo,
+      base_tree: parent.data.tree.sha,
+      tree: files.map(file => ({ path: file.path, mode: '100644' as const, type: 'blob' as const, content: file.content })),
+    });
+    const commit = await octokit.request('POST /repos/{owner}/{repo}/git/commits', {
+      owner,
+      repo,
+      message,
+      tree: tree.data.sha,
+      parents: [parent.data.sha],
+    });
+    // Not forced: if someone pushed in the meantime the update is rejected instead of dropping their commit
+    await octokit.request('PATCH /repos/{owner}/{repo}/git/refs/{ref}', { owner, repo, ref: `heads/${branch}`, sha: commit.data.sha, force: false });
+
+    const shas: Record<string, string> = {};
+    for (const file of files) shas[file.path] = await gitBlobSha(textToBytes(file.content));
+    return { commit: commit.data.sha, shas };
+  }
+
+  async ensureBranch(branch: string) {
+    const octokit = this.octokit();
+    const { owner, repo } = this.config;
+    try {
+      await octokit.request('GET /repos/{owner}/{repo}/git/ref/{ref}', { owner, repo, ref: `heads/${branch}` });
+      return false;
+    } catch (err: any) {
+      if (err.status !== 404) throw err;
+    }
+    const base = await octokit.request('GET /repos/{owner}/{repo}/git/ref/{ref}', { owner, repo, ref: `heads/${this.config.branch}` });
+    await octokit.request('POST /repos/{owner}/{repo}/git/refs', { owner, repo, ref: `refs/heads/${branch}`, sha: base.data.object.sha });
+    return true;
+  }
+
+  // Opens a pull request from `branch` into the configured branch, or puts `body` into the one already open
+  async openPullRequest(branch: string, title: string, body: string): Promise<PullRequestInfo> {
+    const octokit = this.octokit();
+    const { owner, repo } = this.config;
+    const open = await octokit.request('GET /repos/{owner}/{repo}/pulls', { owner, repo, head: `${owner}:${branch}`, base: this.config.branch, state: 'open' });
+    const existing = open.data[0];
+    if (existing) {
+      const updated = await octokit.request('PATCH /repos/{owner}/{repo}/pulls/{pull_number}', {
+        owner,
+        repo,
+        pull_number: existing.number,
+        body: pullRequestBody(existing.body, body),
+      });
+      return { url: updated.data.html_url, number: updated.data.number, created: false };
+    }
+    const created = await octokit.request('POST /repos/{owner}/{repo}/pulls', { owner, repo, head: branch, base: this.config.branch, title, body: pullRequestBody(undefined, body) });
+    return { url: created.data.html_url, number: created.data.number, created: true };
+  }
+
+  branchUrl(branch: string) {
+    const web = this.baseUrl === 'https://api.github.com' ? 'https://github.com' : this.baseUrl.replace(/\/api\/v3$/, '');
+    return `${web}/${this.config.owner}/${this.config.repo}/tree/${branch}`;
   }
 }
@@ -0,0 +1,137 @@
+import { GitHubConfig, PullRequestInfo, RemoteFile, RepositoryProvider } from '../types';
+import { apiBaseUrl, bytesToText, gitBlobSha, pullRequestBody, textToBytes } from '@/utils';
+
+// GitLab REST API v4; `owner` is the namespace, so nested groups (`group/subgroup`) work as well
+export class GitLabService implements RepositoryProvider {
+  private config: GitHubConfig;
+  private token: string | null;
+  private baseUrl: string;
+
+  constructor(config: GitHubConfig, token: string | null) {
+    this.config = config;
+    this.token = token || null;
+    this.baseUrl = apiBaseUrl(config, 'https://gitlab.com/api/v4');
+  }
+
+  private get project() {
+    return `${this.baseUrl}/projects/${encodeURIComponent(`${this.config.owner}/${this.config.repo}`)}`;
+  }
+
+  private async request(url: string, init: RequestInit = {}) {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...(this.token ? { 'PRIVATE-TOKEN': this.token } : {}),
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      },
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      const message = typeof error?.message === 'string' ? error.message : error?.error || response.statusText || response.status;
+      throw Object.assign(new Error(`GitLab: ${message}`), { status: response.status });
+    }
+    return response;
+  }
+
+  // Follows GitLab's page headers until the last page or `maxPages`
+  private async paginate<T>(url: string, maxPages = 100) {
+    const items: T[] = [];
+    let page = '1';
+    for (let i = 0; i < maxPages && page; i++) {
+      const response = await this.request(`${url}${url.includes('?') ? '&' : '?'}per_page=100&page=${page}`);
+      items.push(...await response.json());
+      page = response.headers.get('x-next-page') || '';
+    }
+    return { items, complete: !page };
+  }
+
+  async getFile(path: string, ref: string = this.config.branch): Promise<RemoteFile> {
+    let response: Response;
+    try {
+      response = await this.request(`${this.project}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`);
+    } catch (err: any) {
+      throw Object.assign(new Error(`Failed to fetch ${path}: ${err.message}`), { status: err.status });
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return { text: bytesToText(bytes), sha: await gitBlobSha(bytes) };
+  }
+
+  async listBranches() {
+    const { items } = await this.paginate<{ name: string }>(`${this.project}/repository/branches`);
+    return items.map(b => b.name);
+  }
+
+  async listTree(ref: string = this.config.branch) {
+    const { items, complete } = await this.paginate<{ path: string; type: string }>(`${this.project}/repository/tree?recursive=true&ref=${encodeURIComponent(ref)}`);
+    return { paths: items.filter(entry => entry.type === 'blob').map(entry => entry.path), truncated: !complete };
+  }
+
+  async pushFile(content: string, path: string, message: string, branch: string = this.config.branch) {
+    const { shas } = await this.commitFiles([{ path, content }], message, branch);
+    return { sha: shas[path] };
+  }
+
+  private async exists(path: string, ref: string) {
+    try {
+      await this.request(`${this.project}/repository/files/${encodeURIComponent(path)}?ref=${encodeURIComponent(ref)}`, { method: 'HEAD' });
+      return true;
+    } catch (err: any) {
+      if (err.status === 404) return false;
+      throw err;
+    }
+  }
+
+  // The commits API applies every action or none, so several files land in one commit
+  async commitFiles(files: { path: string; content: string }[], message: string, branch: string = this.config.branch) {
+    const actions = [];
+    for (const file of files) {
+      actions.push({ action: await this.exists(file.path, branch) ? 'update' : 'create', file_path: file.path, content: file.content });
+    }
+    const response = await this.request(`${this.project}/repository/commits`, {
+      method: 'POST',
+      body: JSON.stringify({
+        branch,
+        commit_message: message,
+        actions,
+      }),
+    });
+    const commit = await response.json();
+
+    const shas: Record<string, string> = {};
+    for (const file of files) shas[file.path] = await gitBlobSha(textToBytes(file.content));
+    return { commit: commit.id as string, shas };
+  }
+
+  async ensureBranch(branch: string) {
+    try {
+      await this.request(`${this.project}/repository/branches/${encodeURIComponent(branch)}`);
+      return false;
+    } catch (err: any) {
+      if (err.status !== 404) throw err;
+    }
+    await this.request(`${this.project}/repository/branches?branch=${encodeURIComponent(branch)}&ref=${encodeURIComponent(this.config.branch)}`, { method: 'POST' });
+    return true;
+  }
+
+  async openPullRequest(branch: string, title: string, body: string): Promise<PullRequestInfo> {
+    const query = `state=opened&source_branch=${encodeURIComponent(branch)}&target_branch=${encodeURIComponent(this.config.branch)}`;
+    const open = await (await this.request(`${this.project}/merge_requests?${query}`)).json();
+    const existing = open[0];
+    if (existing) {
+      const updated = await (await this.request(`${this.project}/merge_requests/${existing.iid}`, {
+        method: 'PUT',
+        body: JSON.stringify({ description: pullRequestBody(existing.description, body) }),
+      })).json();
+      return { url: updated.web_url, number: updated.iid, created: false };
+    }
+    const created = await (await this.request(`${this.project}/merge_requests`, {
+      method: 'POST',
+      body: JSON.stringify({ source_branch: branch, target_branch: this.config.branch, title, description: pullRequestBody(undefined, body) }),
+    })).json();
+    return { url: created.web_url, number: created.iid, created: true };
+  }
+
+  branchUrl(branch: string) {
+    return `${this.baseUrl.replace(/\/api\/v4$/, '')}/${this.config.owner}/${this.config.repo}/-/tree/${branch}`;
+  }
+}
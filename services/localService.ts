@@ -0,0 +1,178 @@
+import { unzipSync, zipSync } from 'fflate';
+import { GitHubConfig, PullRequestInfo, RemoteFile, RepositoryProvider } from '../types';
+import { bytesToText, downloadFile, gitBlobSha, textToBytes } from '@/utils';
+
+interface LocalWorkspace {
+  name: string;
+  // picked or dropped folders the browser lets us write to
+  directory?: any;
+  // files read from a zip or a dropped folder, saved back as a zip download
+  files?: Map<string, Uint8Array>;
+  // folder the zip wrapped every file in, restored when it is downloaded again
+  root?: string;
+}
+
+// Open workspaces by name; they only live as long as the page, so a reloaded project asks for its folder again
+const workspaces = new Map<string, LocalWorkspace>();
+
+const IGNORED = new Set(['.git', 'node_modules']);
+
+export function isWorkspaceOpen(name: string) {
+  return workspaces.has(name);
+}
+
+function register(workspace: LocalWorkspace) {
+  workspaces.set(workspace.name, workspace);
+  return workspace.name;
+}
+
+// Lets the user pick a folder; only Chromium based browsers implement the File System Access API
+export async function openDirectoryWorkspace() {
+  const showDirectoryPicker = (window as any).showDirectoryPicker;
+  if (!showDirectoryPicker) throw new Error("This browser cannot open folders. Drop a folder or a zip file instead.");
+  const directory = await showDirectoryPicker({ mode: 'readwrite' });
+  return register({ name: directory.name, directory });
+}
+
+export function openZipWorkspace(name: string, bytes: Uint8Array) {
+  const entries = Object.entries(unzipSync(bytes)).filter(([path]) => !path.endsWith('/'));
+  const tops = new Set(entries.map(([path]) => path.split('/')[0]));
+  const root = tops.size === 1 && entries.every(([path]) => path.includes('/')) ? `${[...tops][0]}/` : '';
+  const files = new Map(entries.map(([path, data]) => [path.substring(root.length), data]));
+  return register({ name: name.replace(/\.zip$/i, ''), files, root });
+}
+
+async function readEntry(entry: any, prefix: string, files: Map<string, Uint8Array>): Promise<void> {
+  if (IGNORED.has(entry.name)) return;
+  if (entry.isFile) {
+    const file: File = await new Promise((resolve, reject) => entry.file(resolve, reject));
+    files.set(prefix + entry.name, new Uint8Array(await file.arrayBuffer()));
+    return;
+  }
+  const reader = entry.createReader();
+  // readEntries hands out directory contents in batches until it returns an empty one
+  while (true) {
+    const batch: any[] = await new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) await readEntry(child, `${prefix}${entry.name}/`, files);
+  }
+}
+
+/**
+ * Opens what was dropped on the page: a folder, written back in place where the browser allows it,
+ * otherwise read into memory, or a zip file.
+ */
+export async function openDroppedWorkspace(dataTransfer: DataTransfer) {
+  const item = dataTransfer.items[0];
+  if (!item) throw new Error("Nothing was dropped.");
+  const handlePromise = (item as any).getAsFileSystemHandle?.();
+  const entry = item.webkitGetAsEntry();
+  const file = item.getAsFile();
+  const handle = await handlePromise;
+  if (handle?.kind === 'directory') return register({ name: handle.name, directory: handle });
+  if (entry?.isDirectory) {
+    const files = new Map<string, Uint8Array>();
+    await readEntry(entry, '', files);
+    // readEntry keeps the dropped folder's own name in front of every path
+    return register({ name: entry.name, files: new Map([...files].map(([path, data]) => [path.substring(entry.name.length + 1), data])) });
+  }
+  if (file && /\.zip$/i.test(file.name)) return openZipWorkspace(file.name, new Uint8Array(await file.arrayBuffer()));
+  throw new Error("Drop a folder or a zip file.");
+}
+
+// Files on the user's machine, read and written like a repository with a single branch and no pull requests
+export class LocalWorkspaceService implements RepositoryProvider {
+  private config: GitHubConfig;
+
+  constructor(config: GitHubConfig) {
+    this.config = config;
+  }
+
+  private get workspace() {
+    const workspace = workspaces.get(this.config.repo);
+    if (!workspace) throw new Error(`Workspace "${this.config.repo}" is not open. Open its folder or zip file again.`);
+    return workspace;
+  }
+
+  private async fileHandle(path: string, create = false) {
+    const parts = path.split('/');
+    let directory = this.workspace.directory;
+    for (const part of parts.slice(0, -1)) directory = await directory.getDirectoryHandle(part, { create });
+    return directory.getFileHandle(parts[parts.length - 1], { create });
+  }
+
+  async getFile(path: string): Promise<RemoteFile> {
+    let bytes: Uint8Array | undefined;
+    if (this.workspace.directory) {
+      try {
+        bytes = new Uint8Array(await (await (await this.fileHandle(path)).getFile()).arrayBuffer());
+      } catch (err: any) {
+        // Only a missing file or folder counts as not found; a file that cannot be read must not be replaced on push
+        if (err?.name !== 'NotFoundError') throw err;
+      }
+    } else {
+      bytes = this.workspace.files!.get(path);
+    }
+    if (!bytes) throw Object.assign(new Error(`Failed to fetch ${path}: Not Found in ${this.workspace.name}`), { status: 404 });
+    return { text: bytesToText(bytes), sha: await gitBlobSha(bytes) };
+  }
+
+  async listBranches() {
+    return [this.config.branch];
+  }
+
+  async listTree() {
+    const workspace = this.workspace;
+    if (!workspace.directory) return { paths: [...workspace.files!.keys()].sort(), truncated: false };
+    const paths: string[] = [];
+    const walk = async (directory: any, prefix: string) => {
+      for await (const [name, handle] of directory.entries()) {
+        if (IGNORED.has(name)) continue;
+        if (handle.kind === 'directory') await walk(handle, `${prefix}${name}/`);
+        else paths.push(prefix + name);
+      }
+    };
+    await walk(workspace.directory, '');
+    return { paths: paths.sort(), truncated: false };
+  }
+
+  async pushFile(content: string, path: string, message: string) {
+    const { shas } = await this.commitFiles([{ path, content }], message);
+    return { sha: shas[path] };
+  }
+
+  // Writes into the opened folder, or updates the in-memory copy and downloads it as a zip
+  async commitFiles(files: { path: string; content: string }[], message: string) {
+    const workspace = this.workspace;
+    if (workspace.directory) {
+      if (await workspace.directory.requestPermission?.({ mode: 'readwrite' }) === 'denied') {
+        throw new Error(`Permission to write to ${workspace.name} was denied.`);
+      }
+      for (const file of files) {
+        const writable = await (await this.fileHandle(file.path, true)).createWritable();
+        await writable.write(file.content);
+        await writable.close();
+      }
+    } else {
+      files.forEach(file => workspace.files!.set(file.path, textToBytes(file.content)));
+      const archive = Object.fromEntries([...workspace.files!].map(([path, data]) => [(workspace.root || '') + path, data]));
+      downloadFile(`${workspace.name}.zip`, zipSync(archive), 'application/zip');
+    }
+
+    const shas: Record<string, string> = {};
+    for (const file of files) shas[file.path] = await gitBlobSha(textToBytes(file.content));
+    return { commit: message, shas };
+  }
+
+  async ensureBranch(): Promise<boolean> {
+    throw new Error("Local workspaces have no branches; use commit mode to save.");
+  }
+
+  async openPullRequest(): Promise<PullRequestInfo> {
+    throw new Error("Pull requests need a git host; local workspaces save directly.");
+  }
+
+  branchUrl() {
+    return this.workspace.directory ? `folder ${this.workspace.name}` : `${this.workspace.name}.zip`;
+  }
+}
@@ -0,0 +1,106 @@
+import { GitHubConfig, PullRequestInfo, RemoteFile, RepositoryProvider } from '../types';
+import { gitBlobSha, pullRequestBody, textToBytes } from '@/utils';
+
+interface MemoryRepository {
+  // file text by path, per branch
+  branches: Record<string, Record<string, string>>;
+  commits: { id: string; branch: string; message: string; paths: string[] }[];
+  pullRequests: { number: number; head: string; base: string; title: string; body: string }[];
+}
+
+const repositories = new Map<string, MemoryRepository>();
+
+/**
+ * Repository kept in memory for the lifetime of the page, so fetching and pushing can be exercised without a network.
+ * Repositories are created with `seed`.
+ */
+export class MemoryRepositoryService implements RepositoryProvider {
+  private config: GitHubConfig;
+
+  constructor(config: GitHubConfig) {
+    this.config = config;
+  }
+
+  static seed(owner: string, repo: string, branch: string, files: Record<string, string>) {
+    const repository = repositories.get(`${owner}/${repo}`) || { branches: {}, commits: [], pullRequests: [] };
+    repository.branches[branch] = { ...files };
+    repositories.set(`${owner}/${repo}`, repository);
+    return repository;
+  }
+
+  static inspect(owner: string, repo: string) {
+    return repositories.get(`${owner}/${repo}`);
+  }
+
+  static reset() {
+    repositories.clear();
+  }
+
+  private get repository() {
+    const repository = repositories.get(`${this.config.owner}/${this.config.repo}`);
+    if (!repository) throw new Error(`Repository ${this.config.owner}/${this.config.repo} does not exist in memory`);
+    return repository;
+  }
+
+  private branch(name: string) {
+    const files = this.repository.branches[name];
+    if (!files) throw new Error(`Branch ${name} does not exist`);
+    return files;
+  }
+
+  async getFile(path: string, ref: string = this.config.branch): Promise<RemoteFile> {
+    const text = this.branch(ref)[path];
+    if (text === undefined) throw Object.assign(new Error(`Failed to fetch ${path}: Not Found`), { status: 404 });
+    return { text, sha: await gitBlobSha(textToBytes(text)) };
+  }
+
+  async listBranches() {
+    return Object.keys(this.repository.branches);
+  }
+
+  async listTree(ref: string = this.config.branch) {
+    return { paths: Object.keys(this.branch(ref)).sort(), truncated: false };
+  }
+
+  async pushFile(content: string, path: string, message: string, branch: string = this.config.branch) {
+    const { shas } = await this.commitFiles([{ path, content }], message, branch);
+    return { sha: shas[path] };
+  }
+
+  async commitFiles(files: { path: string; content: string }[], message: string, branch: string = this.config.branch) {
+    const current = this.branch(branch);
+    files.forEach(file => current[file.path] = file.content);
+    const id = crypto.randomUUID().replaceAll('-', '');
+    this.repository.commits.push({ id, branch, message, paths: files.map(file => file.path) });
+
+    const shas: Record<string, string> = {};
+    for (const file of files) shas[file.path] = await gitBlobSha(textToBytes(file.content));
+    return { commit: id, shas };
+  }
+
+  async ensureBranch(branch: string) {
+    if (this.repository.branches[branch]) return false;
+    this.repository.branches[branch] = { ...this.branch(this.config.branch) };
+    return true;
+  }
+
+  async openPullRequest(branch: string, title: string, body: string): Promise<PullRequestInfo> {
+    const pullRequests = this.repository.pullRequests;
+    const existing = pullRequests.find(pull => pull.head === branch && pull.base === this.config.branch);
+    if (existing) {
+      existing.body = pullRequestBody(existing.body, body);
+      return { url: this.pullRequestUrl(existing.number), number: existing.number, created: false };
+    }
+    const number = pullRequests.length + 1;
+    pullRequests.push({ number, head: branch, base: this.config.branch, title, body: pullRequestBody(undefined, body) });
+    return { url: this.pullRequestUrl(number), number, created: true };
+  }
+
+  private pullRequestUrl(number: number) {
+    return `memory://${this.config.owner}/${this.config.repo}/pulls/${number}`;
+  }
+
+  branchUrl(branch: string) {
+    return `memory://${this.config.owner}/${this.config.repo}/tree/${branch}`;
+  }
+}
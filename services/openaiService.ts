@@ -0,0 +1,51 @@
+import { AiConfig, AiProvider, AnswerShape } from "../types";
+import { eventData } from "./streaming";
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp, vLLM, LM Studio...
+export class OpenAiCompatibleService implements AiProvider {
+  private config: AiConfig;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config: AiConfig, apiKey: string) {
+    this.config = config;
+    this.apiKey = apiKey;
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+  }
+
+  async generate(prompt: string, shape?: AnswerShape, signal?: AbortSignal, onText?: (text: string) => void) {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        // local servers usually take no key
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(shape ? { response_format: { type: 'json_object' } } : {}),
+        ...(onText ? { stream: true } : {}),
+      }),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null);
+      throw Object.assign(new Error(`${this.baseUrl}: ${error?.error?.message || error?.error || response.statusText || response.status}`), { status: response.status });
+    }
+    if (onText) {
+      let text = '';
+      for await (const data of eventData(response)) {
+        if (data === '[DONE]') break;
+        const event = JSON.parse(data);
+        if (event.error) throw new Error(`${this.baseUrl}: ${event.error.message || event.error}`);
+        const piece = event.choices?.[0]?.delta?.content || '';
+        text += piece;
+        if (piece) onText(piece);
+      }
+      return text;
+    }
+    const result = await response.json();
+    return result.choices?.[0]?.message?.content || '';
+  }
+}
@@ -0,0 +1,67 @@
+import { EntryMeta, GitHubConfig, LocaleTarget, ProviderKind, RemoteFile, RepositoryProvider, ValueType } from '../types';
+import { formatForPath } from '@/formats';
+import { GitHubService } from './githubService';
+import { GitLabService } from './gitlabService';
+import { GiteaService } from './giteaService';
+import { MemoryRepositoryService } from './memoryService';
+import { LocalWorkspaceService } from './localService';
+
+// Display names and defaults; `reference` prefixes pull request numbers the way the host writes them.
+// Hosted providers need an owner and an access token; the others have neither. Unlisted providers are not
+// offered in the settings: the in-memory one only backs `npm run check:memory`.
+export const repositoryProviders: Record<ProviderKind, { label: string; apiBaseUrl: string; pullRequest: string; reference: string; hosted: boolean; listed: boolean }> = {
+  github: { label: 'GitHub', apiBaseUrl: 'https://api.github.com', pullRequest: 'Pull request', reference: '#', hosted: true, listed: true },
+  gitlab: { label: 'GitLab', apiBaseUrl: 'https://gitlab.com/api/v4', pullRequest: 'Merge request', reference: '!', hosted: true, listed: true },
+  gitea: { label: 'Gitea', apiBaseUrl: 'https://gitea.com/api/v1', pullRequest: 'Pull request', reference: '#', hosted: true, listed: true },
+  memory: { label: 'Memory', apiBaseUrl: '', pullRequest: 'Pull request', reference: '#', hosted: false, listed: false },
+  local: { label: 'Local Files', apiBaseUrl: '', pullRequest: 'Pull request', reference: '#', hosted: false, listed: true },
+};
+
+export function createRepository(config: GitHubConfig, token: string | null): RepositoryProvider {
+  switch (config.provider || 'github') {
+    case 'gitlab':
+      return new GitLabService(config, token);
+    case 'gitea':
+      return new GiteaService(config, token);
+    case 'memory':
+      return new MemoryRepositoryService(config);
+    case 'local':
+      return new LocalWorkspaceService(config);
+    default:
+      return new GitHubService(config, token);
+  }
+}
+
+// Fetches and flattens the source and target files, parsed by the format their extension names. Target files are
+// read from `targetRef` when given, e.g. the translation branch pushes go to
+export async function loadRepositoryFiles(repository: RepositoryProvider, config: GitHubConfig, locales: LocaleTarget[] = config.targets, targetRef?: string) {
+  const { text: sourceRaw } = await repository.getFile(config.sourcePath);
+  const sourceFormat = formatForPath(config.sourcePath);
+  const sourceOptions = { locale: config.sourceLocale, role: 'source' as const };
+  const source = sourceFormat.parse(sourceRaw, sourceOptions);
+  const sourceMeta = sourceFormat.parseMeta?.(sourceRaw, sourceOptions) || {};
+  const targets: Record<string, Record<string, ValueType>> = {};
+  const targetMeta: Record<string, Record<string, EntryMeta>> = {};
+  const rawTargets: Record<string, string> = {};
+  const shas: Record<string, string> = {};
+  const missing: string[] = [];
+  for (const { locale, path } of locales) {
+    const format = formatForPath(path);
+    let file: RemoteFile;
+    try {
+      file = await repository.getFile(path, targetRef);
+    } catch (err: any) {
+      // A locale whose file is not there yet starts empty; its file is created by the first push
+      if (err.status !== 404) throw err;
+      targets[locale] = {};
+      missing.push(locale);
+      continue;
+    }
+    rawTargets[locale] = file.text;
+    shas[locale] = file.sha;
+    targets[locale] = format.parse(rawTargets[locale], { locale });
+    const meta = format.parseMeta?.(rawTargets[locale], { locale });
+    if (meta) targetMeta[locale] = meta;
+  }
+  return { source, sourceRaw, sourceMeta, targets, targetMeta, rawTargets, shas, missing };
+}
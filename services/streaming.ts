@@ -0,0 +1,20 @@
+// Data of each server-sent event of a streamed response, as the events arrive
+export async function* eventData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  const dataOf = (event: string) => event.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.substring(5).replace(/^ /, '')).join('\n');
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop()!;
+    for (const event of events) {
+      const data = dataOf(event);
+      if (data) yield data;
+    }
+  }
+  const data = dataOf(buffer);
+  if (data) yield data;
+}
@@ -0,0 +1,77 @@
+import { MemoryEntry, MemoryMatch } from "./types";
+
+// Oldest entries are dropped beyond this, to stay well inside the localStorage quota
+const MEMORY_LIMIT = 20000;
+
+const normalizeLocale = (locale: string) => locale.trim().toLowerCase().replaceAll('_', '-');
+const entryId = (entry: MemoryEntry) => `${normalizeLocale(entry.sourceLocale)}\u0000${normalizeLocale(entry.targetLocale)}\u0000${entry.source}`;
+
+/**
+ * Adds translations to the memory; a source already remembered for the same locale pair
+ * takes the newer translation. Empty translations are ignored.
+ */
+export function addToMemory(memory: MemoryEntry[], entries: MemoryEntry[]) {
+  const byId = new Map(memory.map(entry => [entryId(entry), entry]));
+  entries.forEach(entry => {
+    if (entry.source === '' || entry.target === '') return;
+    const id = entryId(entry);
+    const existing = byId.get(id);
+    if (!existing || existing.updated <= entry.updated) {
+      byId.delete(id);
+      byId.set(id, entry);
+    }
+  });
+  const merged = [...byId.values()];
+  return merged.length > MEMORY_LIMIT ? merged.sort((a, b) => b.updated - a.updated).slice(0, MEMORY_LIMIT) : merged;
+}
+
+export function memoryFor(memory: MemoryEntry[], sourceLocale: string, targetLocale: string) {
+  const source = normalizeLocale(sourceLocale);
+  const target = normalizeLocale(targetLocale);
+  return memory.filter(entry => normalizeLocale(entry.sourceLocale) === source && normalizeLocale(entry.targetLocale) === target);
+}
+
+// Levenshtein distance, giving up once it is certain to exceed `limit`
+function editDistance(a: string, b: string, limit: number) {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, current[j]);
+    }
+    if (best > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Remembered translations whose source is at least `minScore` similar to `source`, best first.
+ * The score is one minus the edit distance over the length of the longer source.
+ */
+export function findMatches(entries: MemoryEntry[], source: string, { minScore = 0.7, limit = 3 } = {}): MemoryMatch[] {
+  if (source === '') return [];
+  const matches: MemoryMatch[] = [];
+  entries.forEach(entry => {
+    const length = Math.max(source.length, entry.source.length);
+    const distance = editDistance(source, entry.source, Math.floor(length * (1 - minScore)));
+    const score = 1 - distance / length;
+    if (score >= minScore) matches.push({ entry, score });
+  });
+  matches.sort((a, b) => b.score - a.score || b.entry.updated - a.entry.updated);
+  // the same translation remembered for several similar sources is shown once
+  const seen = new Set<string>();
+  return matches.filter(match => {
+    if (seen.has(match.entry.target)) return false;
+    seen.add(match.entry.target);
+    return true;
+  }).slice(0, limit);
+}
+
+// Translations remembered for exactly this source text, by source
+export function exactMatches(entries: MemoryEntry[]) {
+  return new Map(entries.map(entry => [entry.source, entry.target]));
+}
@@ -1,33 +1,158 @@
 
+export interface LocaleTarget {
+  locale: string;
+  path: string;
+}
+
 export interface GitHubConfig {
   owner: string;
   repo: string;
   branch: string;
+  sourceLocale: string;
   sourcePath: string;
-  targetPath: string;
+  targets: LocaleTarget[];
+  // 'pull-request' commits to a translation branch and opens a pull request instead of committing to `branch`
+  pushMode?: PushMode;
+  // translation branch used in pull-request mode; defaults to one derived from `branch`
+  proposalBranch?: string;
+  // REST API root of a self-hosted server (e.g. `https://host/api/v3`); the provider's public host when empty
+  apiBaseUrl?: string;
+  // where the repository lives; github when unset
+  provider?: ProviderKind;
+}
+
+export type PushMode = 'commit' | 'pull-request';
+
+export type ProviderKind = 'github' | 'gitlab' | 'gitea' | 'memory' | 'local';
+
+// Repository operations the app needs from a hosting service; pull requests are merge requests on GitLab
+export interface RepositoryProvider {
+  // Reads a file as text along with the git blob sha of its exact bytes; a missing file throws an error with `status` 404
+  getFile(path: string, ref?: string): Promise<RemoteFile>;
+  listBranches(): Promise<string[]>;
+  // Every file path on `ref`; `truncated` when the host stopped listing early
+  listTree(ref?: string): Promise<{ paths: string[]; truncated: boolean }>;
+  // Writes files, creating the ones that do not exist yet
+  pushFile(content: string, path: string, message: string, branch?: string): Promise<{ sha: string }>;
+  // Writes several files in a single commit; returns the commit id and the blob sha of each path
+  commitFiles(files: { path: string; content: string }[], message: string, branch?: string): Promise<{ commit: string; shas: Record<string, string> }>;
+  // Creates `branch` from the configured branch unless it already exists; returns whether it was created
+  ensureBranch(branch: string): Promise<boolean>;
+  openPullRequest(branch: string, title: string, body: string): Promise<PullRequestInfo>;
+  // Web page of a branch, for links shown to the user
+  branchUrl(branch: string): string;
+}
+
+export interface PullRequestInfo {
+  url: string;
+  number: number;
+  created: boolean;
+}
+
+export interface LocaleValue {
+  targetValue: string;
+  originalTargetValue: string;
+  aiSuggestion?: string;
+  // translator comments and the fuzzy flag, for formats that keep them per translation
+  comments?: string[];
+  fuzzy?: boolean;
+  review?: AiReview;
+}
+
+export type ReviewSeverity = 'minor' | 'major' | 'critical';
+
+// An AI reviewer's opinion of a translation
+export interface AiReview {
+  verdict: 'ok' | 'issue';
+  severity?: ReviewSeverity;
+  explanation: string;
+  correction?: string;
+  // the translation that was reviewed; the review is outdated once the target differs
+  target: string;
+}
+
+// Per-entry details some formats carry besides the value itself
+export interface EntryMeta {
+  context?: string;
+  comments?: string[];
+  references?: string[];
+  flags?: string[];
+  pluralForm?: number;
+  fuzzy?: boolean;
+  previousSource?: string;
 }
 
 export interface TranslationRow {
   key: string;
   sourceValue: string;
-  targetValue: string;
-  originalTargetValue: string;
   pastSourceValue: string;
-  aiSuggestion?: string;
+  // JSON type of the source value; values are edited as text and converted back on write
+  valueType?: ValueKind;
+  meta?: EntryMeta;
+  locales: Record<string, LocaleValue>;
 }
 
-export enum GeminiModel {
-  'G3-FLASH-PRE' = 'gemini-3-flash-preview',
-  'G3-PRO-PRE' = 'gemini-3-pro-preview',
-  'G2.5-FLASH' = 'gemini-2.5-flash',
-  'G2.5-PRO' = 'gemini-2.5-pro',
-  'GA3-27B-IT' = 'gemma-3-27b-it',
+export type AiProviderKind = 'gemini' | 'openai' | 'anthropic';
+
+// The model a project asks for suggestions; any model name the provider serves works
+export interface AiConfig {
+  provider: AiProviderKind;
+  model: string;
+  // chat completions root of an OpenAI compatible server (e.g. `http://localhost:11434/v1` for Ollama)
+  baseUrl?: string;
+  // token limits of the model, when the ones known for its name are wrong
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// Tokens a model reads in one request, and writes in its answer
+export interface TokenBudget {
+  input: number;
+  output: number;
+}
+
+// A language model service; every provider answers the same prompt
+export interface AiProvider {
+  // Sends one prompt and returns the answer text, a JSON object of the given shape when there is one; rejects with an AbortError once `signal` aborts.
+  // With `onText` the answer is streamed, and each piece of text is passed to it as it arrives
+  generate(prompt: string, shape?: AnswerShape, signal?: AbortSignal, onText?: (text: string) => void): Promise<string>;
+}
+
+// JSON object with `keys`, each a string or, with `fields`, an object of string fields
+export interface AnswerShape {
+  keys: string[];
+  fields?: string[];
+}
+
+export type BatchChunkStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed' | 'cancelled';
+
+// One request of a batch AI job: a locale and the keys sent together
+export interface BatchChunk {
+  locale: string;
+  keys: string[];
+  status: BatchChunkStatus;
+  attempts: number;
+  // message of the last failure
+  error?: string;
+  // times these keys were sent again because an answer left them out
+  requeued?: number;
 }
 
 export interface GlobalSettings {
   githubToken: string;
+  // per-project tokens (by project id) used instead of githubToken; kept out of the project so exports never carry them
+  projectTokens?: Record<string, string>;
   geminiApiKey: string;
+  openaiApiKey?: string;
+  anthropicApiKey?: string;
   suggestionChunkSize: number;
+  // AI requests a batch runs at once, and how often a rate-limited or malformed one is tried again
+  suggestionConcurrency?: number;
+  suggestionRetries?: number;
+  // refuse to push translations with placeholder, markup or ICU errors instead of asking
+  blockOnValidationErrors?: boolean;
+  // glossary terms every project uses; a project's own term for the same source wins
+  sharedGlossary?: GlossaryTerm[];
 }
 
 export interface Project {
@@ -35,9 +160,28 @@ export interface Project {
   name: string;
   config: GitHubConfig;
   rows: TranslationRow[];
-  selectedModel: GeminiModel;
+  ai: AiConfig;
   lastUpdated: number;
-  originalTargetData: Record<string, ValueType>;
+  // flattened target file as fetched, keyed by locale
+  originalTargetData: Record<string, Record<string, ValueType>>;
+  // file text as fetched, keyed by locale; the base the writer patches on push
+  originalTargetRaw: Record<string, string>;
+  // source file text as fetched; the template for entries and files the target does not have yet
+  originalSourceRaw?: string;
+  // git blob sha of each target file as fetched or last pushed, keyed by locale; a different remote sha means someone else changed it
+  targetShas?: Record<string, string>;
+  glossary?: GlossaryTerm[];
+  prompt?: PromptSettings;
+}
+
+// How AI suggestions are asked for in a project
+export interface PromptSettings {
+  // opening of every prompt; {source} and {target} are replaced by the locales
+  template: string;
+  instructions: string;
+  // already translated rows shown as examples, and same-namespace strings shown next to each input
+  examples: number;
+  siblings: number;
 }
 
 export interface GlobalState {
@@ -46,4 +190,134 @@ export interface GlobalState {
   settings: GlobalSettings;
 }
 
-export type ValueType = string | number | boolean;
+export type ValueType = string | number | boolean | null;
+
+export type ValueKind = 'string' | 'number' | 'boolean' | 'null';
+
+export interface FormatOptions {
+  locale: string;
+  role?: 'source' | 'target';
+}
+
+export interface SerializeOptions extends FormatOptions {
+  // file text the values are written into; formatting, comments and untouched entries are kept
+  original?: string;
+  // flattened values of the original file, used when there is no original text to patch
+  base?: Record<string, ValueType>;
+  // source file text and locale, used as a template when the target file does not exist yet
+  source?: string;
+  sourceLocale?: string;
+  // entry state to write along with the values, e.g. whether a gettext entry stays fuzzy
+  meta?: Record<string, EntryMeta>;
+}
+
+export interface LocaleFormat {
+  name: string;
+  extensions: string[];
+  // missing or empty translations stay empty instead of starting as a copy of the source
+  untranslatedAsEmpty?: boolean;
+  parse(text: string, options: FormatOptions): Record<string, ValueType>;
+  parseMeta?(text: string, options: FormatOptions): Record<string, EntryMeta>;
+  // source value for a key only the target file has, when the format still treats it as a translatable row
+  sourceValueFor?(key: string, source: Record<string, ValueType>): ValueType | undefined;
+  // keys beyond the source's that a target file in `locale` gets rows for before it exists, e.g. plural forms its language adds
+  newTargetKeys?(source: Record<string, ValueType>, locale: string): string[];
+  serialize(values: Record<string, ValueType>, options: SerializeOptions): string;
+}
+
+export type ExchangeFormat = 'xliff12' | 'xliff20' | 'csv' | 'xlsx';
+
+export type ExchangeStatus = 'untranslated' | 'unconfirmed' | 'modified' | 'translated';
+
+// One row as handed to, or returned by, an outside translator
+export interface ExchangeRow {
+  key: string;
+  source: string;
+  target: string;
+  suggestion?: string;
+  status?: ExchangeStatus;
+  comment?: string;
+}
+
+export interface ExchangeFile {
+  sourceLocale?: string;
+  targetLocale?: string;
+  rows: ExchangeRow[];
+}
+
+export interface ImportChange {
+  key: string;
+  before: string;
+  after: string;
+  // the source text differs from the one the translator saw
+  sourceChanged: boolean;
+}
+
+// A key both we and the remote changed since the fetch, to differing values
+export interface MergeConflict {
+  locale: string;
+  key: string;
+  base?: ValueType;
+  remote?: ValueType;
+  local: ValueType;
+}
+
+export interface RemoteFile {
+  text: string;
+  sha: string;
+}
+
+// Locale files found by pattern discovery that differ only in their locale
+export interface DiscoveredGroup {
+  // one of the matched paths with the locale replaced by {lang}
+  template: string;
+  sourcePath?: string;
+  targets: LocaleTarget[];
+}
+
+// Parsed ICU MessageFormat; `pound` is the `#` standing for the number inside plural options
+export type IcuNode =
+  | { type: 'text'; value: string }
+  | { type: 'pound' }
+  | { type: 'argument'; name: string; format?: string; style?: string }
+  | { type: 'plural' | 'selectordinal' | 'select'; name: string; offset?: number; options: Record<string, IcuNode[]> };
+
+export type IssueSeverity = 'error' | 'warning';
+
+// A problem found by comparing a translation with its source
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  message: string;
+}
+
+// A message as laid out by the plural editor: the text around each top-level choice, and each choice's options as ICU text
+export type IcuPart =
+  | { type: 'text'; text: string }
+  | { type: 'plural' | 'selectordinal' | 'select'; name: string; offset?: number; options: { key: string; text: string }[] };
+
+// A translation kept in the memory shared by every project
+export interface MemoryEntry {
+  source: string;
+  target: string;
+  sourceLocale: string;
+  targetLocale: string;
+  // name of the project the pair was last accepted or pushed in
+  origin?: string;
+  updated: number;
+}
+
+export interface MemoryMatch {
+  entry: MemoryEntry;
+  // similarity of the sources, from 0 to 1
+  score: number;
+}
+
+// A term that must be translated one fixed way, or left as it is
+export interface GlossaryTerm {
+  id: string;
+  source: string;
+  // required translation by locale
+  targets: Record<string, string>;
+  doNotTranslate?: boolean;
+  caseSensitive?: boolean;
+}
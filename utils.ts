@@ -1,5 +1,6 @@
 import { walk } from "walkjs";
-import { Project, ValueType } from "./types";
+import { EntryMeta, GitHubConfig, LocaleTarget, LocaleValue, Project, TranslationRow, ValueKind, ValueType } from "./types";
+import { formatForPath } from "./formats";
 
 export function flattenObject(obj: any, prefix = ''): Record<string, ValueType> {
   let newObj: Record<string, ValueType> = {};
@@ -10,13 +11,13 @@ export function flattenObject(obj: any, prefix = ''): Record<string, ValueType>
         let key = raw.substring(1, raw.length - 1).replaceAll("][", '.').replaceAll("\"", "\'");
         newObj[key] = node.val;
       },
-      filters: node => node.nodeType !== 'object' && node.nodeType !== 'array'
+      filters: node => (node.nodeType !== 'object' && node.nodeType !== 'array') || node.val === null
     }
   });
   return newObj;
 }
 
-export function unflattenObject(data: Record<string, ValueType>, base: Record<string, ValueType> = {}): any {
+export function unflattenObject(data: Record<string, ValueType>, base: any = {}): any {
   let result: any = JSON.parse(JSON.stringify(base));
   for (const rawKey in data) {
     const keys = rawKey.split('.');
@@ -34,6 +35,34 @@ export function unflattenObject(data: Record<string, ValueType>, base: Record<st
   return result;
 }
 
+export function valueKindOf(value: ValueType): ValueKind {
+  if (value === null) return 'null';
+  return typeof value as ValueKind;
+}
+
+export function stringifyValue(value: ValueType) {
+  return value === null ? 'null' : value.toString();
+}
+
+// Converts edited text back to the row's JSON type; undefined when the text is not a valid value of that type
+export function parseTypedValue(text: string, kind: ValueKind = 'string'): ValueType | undefined {
+  switch (kind) {
+    case 'number':
+      return text.trim() !== '' && isFinite(Number(text)) ? Number(text) : undefined;
+    case 'boolean':
+      return text === 'true' ? true : text === 'false' ? false : undefined;
+    case 'null':
+      return text === 'null' ? null : undefined;
+    default:
+      return text;
+  }
+}
+
+// Splits a flattened key ('a'.'b'.0) into object keys and array indexes
+export function parseKeyPath(key: string): (string | number)[] {
+  return key.split('.').map(part => !part.includes("\'") && /^\d+$/.test(part) ? Number(part) : part.replaceAll("\'", ""));
+}
+
 export function saveToLocal(key: string, data: any) {
   localStorage.setItem(key, JSON.stringify(data));
 }
@@ -53,6 +82,16 @@ export function bytesToText(bytes: Uint8Array) {
   return decoder.decode(bytes);
 }
 
+// Same id git gives the file's blob, so a fetched file can be compared with the sha the API reports
+export async function gitBlobSha(bytes: Uint8Array) {
+  const header = textToBytes(`blob ${bytes.length}\0`);
+  const data = new Uint8Array(header.length + bytes.length);
+  data.set(header);
+  data.set(bytes, header.length);
+  const digest = await crypto.subtle.digest('SHA-1', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
 export function base64ToBytes(base64: string) {
   const binString = atob(base64);
   return Uint8Array.from(binString, (m) => m.codePointAt(0));
@@ -63,7 +102,7 @@ export function bytesToBase64(bytes: Uint8Array) {
   return btoa(binString);
 }
 
-export function downloadFile(filename: string, content: string, contentType: string = 'application/json') {
+export function downloadFile(filename: string, content: string | Uint8Array, contentType: string = 'application/json') {
   const blob = new Blob([content], { type: contentType });
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
@@ -83,7 +122,7 @@ export function importProject(content: string) {
   }
 
   const newProject = {
-    ...importedProject,
+    ...migrateProject(importedProject),
     id: crypto.randomUUID(),
     lastUpdated: Date.now()
   };
@@ -91,6 +130,240 @@ export function importProject(content: string) {
   return newProject;
 }
 
+// Mobile projects name the folder after the locale: `values-pt-rBR/strings.xml`, `ko.lproj/Localizable.strings`
+export function localeFromPath(path: string) {
+  const android = /(?:^|\/)values-([a-z]{2,3})(?:-r([A-Z]{2}))?\/[^/]+$/.exec(path);
+  if (android) return android[2] ? `${android[1]}-${android[2]}` : android[1];
+  const apple = /(?:^|\/)([^/]+)\.lproj\/[^/]+$/.exec(path);
+  if (apple) return apple[1];
+  return path.split('/').pop()?.replace(/\.[^.]+$/, '') || '';
+}
+
+// Turns a locale file path into a template with the locale replaced by `{lang}`; '' when the path does not name the locale
+export function localePathTemplate(path: string, locale: string) {
+  if (/(^|\/)values(-[a-z]{2,3}(-r[A-Z]{2})?)?\/[^/]+$/.test(path)) return path.replace(/(^|\/)values(-[a-z]{2,3}(-r[A-Z]{2})?)?\/(?=[^/]+$)/, '$1values-{lang}/');
+  if (!locale) return '';
+  const escaped = locale.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = [...path.matchAll(new RegExp(`(?<=^|[/._-])${escaped}(?=$|[/._-])`, 'g'))].pop();
+  return match ? path.substring(0, match.index) + '{lang}' + path.substring(match.index! + locale.length) : '';
+}
+
+// Fills a path template for a locale; Android resource folders write regions as `pt-rBR`
+export function pathForLocale(template: string, locale: string) {
+  return template
+    .replaceAll('values-{lang}', `values-${locale.replace(/[-_]([A-Za-z]{2})$/, '-r$1')}`)
+    .replaceAll('{lang}', locale);
+}
+
+// REST API root configured for a self-hosted server, or the provider's public one
+export function apiBaseUrl(config: GitHubConfig, fallback: string) {
+  return config.apiBaseUrl?.trim().replace(/\/+$/, '') || fallback;
+}
+
+export function proposalBranchName(config: GitHubConfig) {
+  return config.proposalBranch?.trim() || `multiverse/${config.branch || 'main'}-translations`;
+}
+
+// Markdown section listing the keys a push changed, per locale; used as the pull request description
+export function describeChanges(message: string, changedKeys: Record<string, string[]>) {
+  // GitHub caps descriptions at 65536 characters, so long lists are cut short
+  const sections = Object.entries(changedKeys).map(([locale, keys]) => [
+    `**${locale}** (${keys.length})`,
+    ...keys.slice(0, 200).map(key => `- \`${displayKey(key)}\``),
+    ...(keys.length > 200 ? [`- …and ${keys.length - 200} more`] : []),
+  ].join('\n'));
+  return `### ${message}\n\n${sections.join('\n\n')}`;
+}
+
+const CHANGES_START = '<!-- the-multiverse:changes -->';
+const CHANGES_END = '<!-- /the-multiverse:changes -->';
+
+// Pull request description after a push: the section describing our changes is replaced, text around it is kept.
+// Descriptions without the section (opened before it existed) are replaced as a whole
+export function pullRequestBody(existing: string | null | undefined, body: string) {
+  const section = `${CHANGES_START}\n${body}\n${CHANGES_END}`;
+  const start = existing?.indexOf(CHANGES_START) ?? -1;
+  const end = existing?.indexOf(CHANGES_END) ?? -1;
+  if (!existing || start < 0 || end < start) return section;
+  return existing.substring(0, start) + section + existing.substring(end + CHANGES_END.length);
+}
+
+export function getLocaleValue(row: TranslationRow, locale: string): LocaleValue {
+  return row.locales?.[locale] || { targetValue: '', originalTargetValue: '', aiSuggestion: '' };
+}
+
+export function setLocaleValue(row: TranslationRow, locale: string, updates: Partial<LocaleValue>): TranslationRow {
+  return { ...row, locales: { ...row.locales, [locale]: { ...getLocaleValue(row, locale), ...updates } } };
+}
+
+// Edited values, and fuzzy entries confirmed since the fetch, both change the file on push
+export function isModified(row: TranslationRow, locale: string) {
+  const value = getLocaleValue(row, locale);
+  return value.targetValue !== value.originalTargetValue || (!!value.fuzzy && row.sourceValue === row.pastSourceValue);
+}
+
+// Target file text with the edited rows of one locale written into `original`, or into its fetched text
+function buildTargetContent(project: Project, target: LocaleTarget, original?: string) {
+  const locale = target.locale;
+  const flatData: Record<string, ValueType> = {};
+  const meta: Record<string, EntryMeta> = {};
+  project.rows.forEach(r => {
+    const value = getLocaleValue(r, locale);
+    if (value.fuzzy !== undefined) meta[r.key] = { fuzzy: value.fuzzy && r.sourceValue !== r.pastSourceValue };
+    // Untouched entries are left exactly as they are in the file, including their JSON type and empty values;
+    // entries missing from it are only added once edited, so values pre-filled from the source stay out
+    if (!isModified(r, locale)) return;
+    const typed = parseTypedValue(value.targetValue, r.valueType);
+    if (typed !== undefined) flatData[r.key] = typed;
+  });
+  return formatForPath(target.path).serialize(flatData, {
+    locale,
+    original: original ?? project.originalTargetRaw[locale],
+    base: project.originalTargetData[locale] || {},
+    source: project.originalSourceRaw,
+    sourceLocale: project.config.sourceLocale,
+    meta,
+  });
+}
+
+// Locales that share one file (e.g. an Xcode string catalog) are written into it one after another
+export function buildFileContent(project: Project, fileTargets: LocaleTarget[]) {
+  return fileTargets.reduce<string | undefined>((content, target) => buildTargetContent(project, target, content), undefined) ?? '';
+}
+
+export function renameLocale(rows: TranslationRow[], from: string, to: string): TranslationRow[] {
+  return rows.map(r => {
+    if (!(from in (r.locales || {}))) return r;
+    const { [from]: value, ...locales } = r.locales;
+    return { ...r, locales: { ...locales, [to]: value } };
+  });
+}
+
+export function isValidValue(row: TranslationRow, locale: string) {
+  return parseTypedValue(getLocaleValue(row, locale).targetValue, row.valueType) !== undefined;
+}
+
+export interface LoadedFiles {
+  source: Record<string, ValueType>;
+  // target locales whose file does not exist yet
+  missing?: string[];
+  sourceMeta: Record<string, EntryMeta>;
+  targets: Record<string, Record<string, ValueType>>;
+  targetMeta: Record<string, Record<string, EntryMeta>>;
+}
+
+// Rebuilds the rows from freshly fetched files, keeping local edits and AI suggestions
+export function mergeFetchedRows(rows: TranslationRow[], loaded: LoadedFiles, targets: LocaleTarget[], sourcePath: string): TranslationRow[] {
+  const sourceFormat = formatForPath(sourcePath);
+  const sourceValues = { ...loaded.source };
+  const keys = Object.keys(loaded.source);
+
+  // Entries only a target has, which the format still maps onto a source string (e.g. extra plural forms)
+  if (sourceFormat.sourceValueFor) {
+    Object.keys(loaded.targets).forEach(locale => {
+      // a file not created yet has no entries of its own; the format names the ones its language needs
+      const targetKeys = loaded.missing?.includes(locale)
+        ? sourceFormat.newTargetKeys?.(loaded.source, locale) || []
+        : Object.keys(loaded.targets[locale]);
+      targetKeys.forEach(key => {
+        if (key in sourceValues) return;
+        const sourceValue = sourceFormat.sourceValueFor!(key, loaded.source);
+        if (sourceValue === undefined) return;
+        sourceValues[key] = sourceValue;
+        keys.push(key);
+      });
+    });
+  }
 
+  // Formats that track review state (gettext, string catalogs) decide confirmation: fuzzy entries are unconfirmed, the rest confirmed.
+  // Other formats may still report target meta, such as comments, without any review state
+  const tracksFuzzy = Object.values(loaded.targetMeta).some(meta => Object.values(meta).some(entry => entry.fuzzy !== undefined || entry.previousSource !== undefined));
 
+  return keys.map(key => {
+    const row = rows.find(r => r.key === key);
+    const sourceValue = stringifyValue(sourceValues[key]);
+    const locales = { ...row?.locales };
+    let fuzzy: EntryMeta | undefined;
 
+    Object.keys(loaded.targets).forEach(locale => {
+      const flatTarget = loaded.targets[locale];
+      const current = row?.locales?.[locale];
+      const meta = loaded.targetMeta[locale]?.[key];
+      const target = targets.find(t => t.locale === locale);
+      const untranslatedAsEmpty = target ? formatForPath(target.path).untranslatedAsEmpty : false;
+      const originalTargetValue = key in flatTarget && (untranslatedAsEmpty || flatTarget[key] !== '')
+        ? stringifyValue(flatTarget[key])
+        : (untranslatedAsEmpty || loaded.missing?.includes(locale) ? '' : sourceValue);
+      // A fuzzy entry the user already confirmed locally stays confirmed until it is pushed
+      if (meta?.fuzzy && !(current?.fuzzy && row?.pastSourceValue === sourceValue)) fuzzy = meta;
+      locales[locale] = {
+        targetValue: (!current || current.targetValue === current.originalTargetValue) ? originalTargetValue : current.targetValue,
+        originalTargetValue: originalTargetValue,
+        aiSuggestion: current ? (current.aiSuggestion || '') : '',
+        ...(meta ? { comments: meta.comments, fuzzy: meta.fuzzy } : {}),
+      };
+    });
+
+    const pastSourceValue = fuzzy
+      ? (fuzzy.previousSource ?? '')
+      : (row ? (row.pastSourceValue || '') : (tracksFuzzy ? sourceValue : ''));
+
+    return {
+      key,
+      sourceValue,
+      pastSourceValue,
+      valueType: valueKindOf(sourceValues[key]),
+      ...(loaded.sourceMeta[key] ? { meta: loaded.sourceMeta[key] } : {}),
+      locales,
+    };
+  });
+}
+
+// gettext context separator (EOT) shown as a visible marker
+export function displayKey(key: string) {
+  return key.replaceAll('\u0004', ' ▸ ');
+}
+
+// Key for per-row, per-locale transient state such as AI loading flags
+export function aiStateKey(locale: string, key: string) {
+  return `${locale}:${key}`;
+}
+
+// Projects saved before multi-locale support had a single `targetPath` and flat row values
+export function migrateProject(project: any): Project {
+  if (!project.ai) {
+    // projects from before AI providers always used Gemini
+    const { selectedModel, ...rest } = project;
+    project = { ...rest, ai: { provider: 'gemini', model: selectedModel || 'gemini-3-flash-preview' } };
+  }
+  if (project.config && Array.isArray(project.config.targets)) {
+    return { ...project, originalTargetRaw: project.originalTargetRaw || {} } as Project;
+  }
+
+  const { targetPath = '', ...config } = project.config || {};
+  const locale = localeFromPath(targetPath) || 'target';
+  const targets = targetPath ? [{ locale, path: targetPath }] : [];
+
+  return {
+    ...project,
+    config: {
+      ...config,
+      sourceLocale: config.sourceLocale || localeFromPath(config.sourcePath || ''),
+      targets,
+    },
+    rows: (project.rows || []).map((r: any) => ({
+      key: r.key,
+      sourceValue: r.sourceValue,
+      pastSourceValue: r.pastSourceValue,
+      locales: targetPath ? {
+        [locale]: {
+          targetValue: r.targetValue,
+          originalTargetValue: r.originalTargetValue,
+          aiSuggestion: r.aiSuggestion || '',
+        }
+      } : {},
+    })),
+    originalTargetData: targetPath ? { [locale]: flattenObject(project.originalTargetData || {}) } : {},
+    originalTargetRaw: {},
+  };
+}
@@ -0,0 +1,139 @@
+import { IcuNode, TranslationRow, ValidationIssue } from "./types";
+import { hasIcuArguments, icuArguments, parseIcu, pluralCategories } from "./icu";
+import { getLocaleValue } from "./utils";
+
+// printf style (%s, %1$d, %.2f, %@, %(name)s); `%%` is removed before matching
+const PRINTF = /%(?:\d+\$)?[-+0#]*(?:\d+)?(?:\.\d+)?(?:ll|l|h|z)?[sdifFeEgGxXuc@]|%\([^)\s]+\)[sdfr]/g;
+// i18next / handlebars ({{name}}, {{ count, number }})
+const MUSTACHE = /\{\{[^{}]+\}\}/g;
+// single brace placeholders of non-ICU messages ({0}, {name})
+const BRACE = /\{[^{}\s]+\}/g;
+// i18next nesting ($t(key))
+const NESTING = /\$t\([^)]*\)/g;
+// markup, including numbered react-i18next components (<1>) and namespaced Android tags (<xliff:g>)
+const TAG = /<(\/?)([A-Za-z][\w:.-]*|\d+)(?:\s[^<>]*?)?(\/?)>/g;
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'wbr']);
+
+// Plural forms such as `one` often leave out the number, so their missing placeholders are only warned about
+const PLURAL_VARIANT = /(\.'(zero|one|two|few|many)'|\[(zero|one|two|few|many)\])$/;
+
+export function isPluralVariant(row: TranslationRow) {
+  return row.meta?.pluralForm !== undefined || PLURAL_VARIANT.test(row.key);
+}
+
+const matches = (text: string, pattern: RegExp) => [...text.matchAll(pattern)].map(m => m[0].replace(/\s+/g, ''));
+
+// Placeholders present in one list and not the other, counting repeats
+function difference(from: string[], to: string[]) {
+  const rest = [...to];
+  return from.filter(item => {
+    const index = rest.indexOf(item);
+    if (index < 0) return true;
+    rest.splice(index, 1);
+    return false;
+  });
+}
+
+function comparePlaceholders(source: string[], target: string[], pluralVariant: boolean, issues: ValidationIssue[]) {
+  const missing = difference(source, target);
+  const extra = difference(target, source);
+  if (missing.length > 0 && missing.length === extra.length) {
+    missing.forEach((name, i) => issues.push({ severity: 'error', message: `Placeholder ${name} was changed to ${extra[i]}` }));
+    return;
+  }
+  missing.forEach(name => issues.push({ severity: pluralVariant ? 'warning' : 'error', message: `Missing placeholder ${name}` }));
+  extra.forEach(name => issues.push({ severity: 'error', message: `Unknown placeholder ${name}` }));
+}
+
+// Plural arguments without a category the locale needs fall back to `other`, which reads wrong for those numbers
+function checkPluralCategories(nodes: IcuNode[], locale: string, issues: ValidationIssue[]) {
+  nodes.forEach(node => {
+    if (node.type !== 'plural' && node.type !== 'selectordinal' && node.type !== 'select') return;
+    if (node.type !== 'select') {
+      const missing = pluralCategories(locale, node.type === 'selectordinal').filter(category => !(category in node.options));
+      if (missing.length > 0) issues.push({ severity: 'warning', message: `{${node.name}} has no ${missing.join(', ')} form, which ${locale} needs` });
+    }
+    Object.values(node.options).forEach(option => checkPluralCategories(option, locale, issues));
+  });
+}
+
+function compareIcu(source: string, target: string, locale: string | undefined, pluralVariant: boolean, issues: ValidationIssue[]) {
+  let targetNodes;
+  try {
+    targetNodes = parseIcu(target);
+  } catch (err: any) {
+    issues.push({ severity: 'error', message: `Invalid ICU message: ${err.message}` });
+    return;
+  }
+  const sourceArgs = icuArguments(parseIcu(source));
+  const targetArgs = icuArguments(targetNodes);
+  comparePlaceholders([...sourceArgs.keys()].map(name => `{${name}}`), [...targetArgs.keys()].map(name => `{${name}}`), pluralVariant, issues);
+  sourceArgs.forEach((format, name) => {
+    const targetFormat = targetArgs.get(name);
+    if (targetFormat !== undefined && targetFormat !== format) {
+      issues.push({ severity: 'warning', message: `{${name}} is ${format || 'a plain argument'} in the source but ${targetFormat || 'a plain argument'} here` });
+    }
+  });
+  if (locale) checkPluralCategories(targetNodes, locale, issues);
+}
+
+function compareTags(source: string, target: string, issues: ValidationIssue[]) {
+  const tags = (text: string) => [...text.matchAll(TAG)].map(m => ({ closing: m[1] === '/', name: m[2].toLowerCase(), selfClosing: m[3] === '/' }));
+  const sourceTags = tags(source);
+  const targetTags = tags(target);
+  const label = (tag: { closing: boolean; name: string }) => `<${tag.closing ? '/' : ''}${tag.name}>`;
+
+  difference(sourceTags.map(label), targetTags.map(label)).forEach(tag => issues.push({ severity: 'warning', message: `Missing tag ${tag}` }));
+  difference(targetTags.map(label), sourceTags.map(label)).forEach(tag => issues.push({ severity: 'warning', message: `Unexpected tag ${tag}` }));
+
+  const unbalanced = (list: typeof targetTags) => {
+    const open: string[] = [];
+    for (const tag of list) {
+      if (tag.selfClosing || VOID_TAGS.has(tag.name)) continue;
+      if (!tag.closing) open.push(tag.name);
+      else if (open.pop() !== tag.name) return `</${tag.name}>`;
+    }
+    return open.length > 0 ? `<${open[open.length - 1]}>` : undefined;
+  };
+  // Sources that are not well formed themselves (e.g. split across keys) are not held against the translation
+  const tag = unbalanced(sourceTags) ? undefined : unbalanced(targetTags);
+  if (tag) issues.push({ severity: 'error', message: `Unbalanced tag ${tag}` });
+}
+
+/**
+ * Compares a translation with its source: placeholders that went missing, appeared or were renamed,
+ * markup that no longer matches, and ICU messages that do not parse, lost an argument or lack a plural form the locale needs.
+ */
+export function validateTranslation(source: string, target: string, { locale, pluralVariant = false }: { locale?: string; pluralVariant?: boolean } = {}): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (target === '') return issues;
+
+  const printf = (text: string) => matches(text.replaceAll('%%', ''), PRINTF);
+  const sourcePrintf = printf(source);
+  const targetPrintf = printf(target);
+  comparePlaceholders(sourcePrintf, targetPrintf, pluralVariant, issues);
+  // Without positions (%1$s) the arguments are consumed in order, so reordering them swaps the values
+  if (issues.length === 0 && sourcePrintf.length > 1 && sourcePrintf.some(p => !p.includes('$')) && sourcePrintf.join() !== targetPrintf.join()) {
+    issues.push({ severity: 'warning', message: `Placeholders are in a different order (${targetPrintf.join(' ')}); use positions such as %1$s to reorder them` });
+  }
+
+  comparePlaceholders(matches(source, NESTING), matches(target, NESTING), false, issues);
+
+  let icu = false;
+  if (!source.includes('{{') && source.includes('{')) {
+    try {
+      icu = hasIcuArguments(parseIcu(source));
+    } catch { }
+  }
+  if (source.includes('{{')) comparePlaceholders(matches(source, MUSTACHE), matches(target, MUSTACHE), pluralVariant, issues);
+  else if (icu) compareIcu(source, target, locale, pluralVariant, issues);
+  else comparePlaceholders(matches(source, BRACE), matches(target, BRACE), pluralVariant, issues);
+
+  compareTags(source, target, issues);
+  return issues;
+}
+
+export function validateRow(row: TranslationRow, locale: string): ValidationIssue[] {
+  if ((row.valueType || 'string') !== 'string') return [];
+  return validateTranslation(row.sourceValue, getLocaleValue(row, locale).targetValue, { locale, pluralVariant: isPluralVariant(row) });
+}